@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // Native canvas used by the server render route
+    serverComponentsExternalPackages: ['@napi-rs/canvas'],
+  },
 };
 
 module.exports = nextConfig;
\ No newline at end of file
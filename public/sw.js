@@ -0,0 +1,133 @@
+// Service worker that keeps the editor and the background removal model
+// available offline. Cache names and paths must match src/utils/offlineAssets.ts.
+// Bumped when what the shell cache holds changes, so activation drops the old one
+const SHELL_CACHE = 'overlay-shell-v2';
+const MODEL_CACHE = 'overlay-models-v1';
+const MODEL_PATH = '/models/imgly/';
+// Model precached on install; other models are cached when first used
+const DEFAULT_MODEL_KEY = '/models/isnet_fp16';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      await precacheShell();
+      // The model is large and may not be deployed; the page reports its status
+      await precacheModel().catch((error) => console.warn('Model precache failed:', error));
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names.filter((name) => name !== SHELL_CACHE && name !== MODEL_CACHE).map((name) => caches.delete(name))
+      );
+      await pruneShell();
+      await self.clients.claim();
+    })()
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (url.pathname === `${MODEL_PATH}resources.json`) {
+    // Lists the chunks of the deployed version, so prefer a fresh copy
+    event.respondWith(networkFirst(request, MODEL_CACHE));
+  } else if (url.pathname.startsWith(MODEL_PATH)) {
+    // Chunks are named by content hash
+    event.respondWith(cacheFirst(request, MODEL_CACHE));
+  } else if (url.pathname.startsWith('/_next/static/')) {
+    // Hashed file names never change content
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/'));
+  }
+  // Anything else isn't versioned, so it goes to the network uncached
+});
+
+// The start page plus every script and stylesheet it references
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  const response = await fetch('/', { cache: 'reload' });
+  if (!response.ok) throw new Error(`Failed to fetch app shell: ${response.status}`);
+  await cache.put('/', response.clone());
+
+  await cache.addAll(getShellAssets(await response.text()));
+}
+
+function getShellAssets(html) {
+  return Array.from(new Set(html.match(/\/_next\/static\/[^"'\s)]+/g) || []));
+}
+
+// Remove chunks of earlier builds. Chunks of this build that the start page
+// doesn't reference are removed too, and cached again when next used.
+async function pruneShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  const page = await cache.match('/');
+  if (!page) return;
+
+  const assets = new Set(getShellAssets(await page.text()));
+  const requests = await cache.keys();
+  await Promise.all(
+    requests
+      .filter((request) => {
+        const { pathname } = new URL(request.url);
+        return pathname !== '/' && !assets.has(pathname);
+      })
+      .map((request) => cache.delete(request))
+  );
+}
+
+async function precacheModel() {
+  const cache = await caches.open(MODEL_CACHE);
+  const resourcesUrl = `${MODEL_PATH}resources.json`;
+  const response = await fetch(resourcesUrl);
+  if (!response.ok) throw new Error(`Model assets not deployed: ${response.status}`);
+  await cache.put(resourcesUrl, response.clone());
+
+  const resources = await response.json();
+  const chunks = Object.entries(resources)
+    .filter(([key]) => !key.startsWith('/models/') || key === DEFAULT_MODEL_KEY)
+    .flatMap(([, entry]) => entry.chunks.map((chunk) => new URL(chunk.name, self.location.origin + MODEL_PATH).pathname));
+
+  const missing = [];
+  for (const chunk of chunks) {
+    if (!(await cache.match(chunk))) missing.push(chunk);
+  }
+  await cache.addAll(missing);
+}
+
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// With a fallback URL, responses are stored under it, so the cache holds one
+// page however many URLs are visited
+async function networkFirst(request, cacheName, fallbackUrl) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(fallbackUrl || request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = (await cache.match(request)) || (fallbackUrl && (await cache.match(fallbackUrl)));
+    if (cached) return cached;
+    throw error;
+  }
+}
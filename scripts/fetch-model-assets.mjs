@@ -0,0 +1,92 @@
+// Downloads the IMG.LY background removal model and wasm files into
+// public/models/imgly so the app serves them itself and works offline.
+// Run it before building an app that should include the model; builds without
+// it still work and load the model from a configured URL. Pass --force to
+// download again.
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { gunzipSync } from 'node:zlib';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const outputDir = join(root, 'public', 'models', 'imgly');
+const versionFile = join(outputDir, '.version');
+// Only this part of the package is served
+const ARCHIVE_PREFIX = 'package/dist/';
+// The archive is around 100 MB
+const DOWNLOAD_TIMEOUT_MS = 10 * 60 * 1000;
+
+const { version } = JSON.parse(
+  await readFile(join(root, 'node_modules', '@imgly', 'background-removal', 'package.json'), 'utf8')
+);
+const force = process.argv.includes('--force');
+
+const installed = await readFile(versionFile, 'utf8').catch(() => null);
+if (installed?.trim() === version && !force) {
+  console.log(`Model assets ${version} already present`);
+  process.exit(0);
+}
+
+const url = `https://staticimgly.com/@imgly/background-removal-data/${version}/package.tgz`;
+console.log(`Downloading ${url}`);
+let archive;
+try {
+  const response = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+  if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+  archive = gunzipSync(Buffer.from(await response.arrayBuffer()));
+} catch (error) {
+  console.error(`Could not download model assets: ${describeError(error)}`);
+  process.exit(1);
+}
+
+// Checked before anything is deleted, so a bad archive leaves the old assets
+const files = [];
+for (const entry of readTar(archive)) {
+  if (entry.type !== 'file' || !entry.name.startsWith(ARCHIVE_PREFIX)) continue;
+  const target = resolve(outputDir, entry.name.slice(ARCHIVE_PREFIX.length));
+  const path = relative(outputDir, target);
+  if (!path || path === '..' || path.startsWith(`..${sep}`) || isAbsolute(path)) {
+    console.error(`Could not unpack model assets: ${entry.name} is outside the package`);
+    process.exit(1);
+  }
+  files.push({ target, data: entry.data });
+}
+
+await rm(outputDir, { recursive: true, force: true });
+for (const { target, data } of files) {
+  await mkdir(dirname(target), { recursive: true });
+  await writeFile(target, data);
+}
+
+await writeFile(versionFile, `${version}\n`);
+console.log(`Wrote ${files.length} files to ${outputDir}`);
+
+// fetch reports network failures as "fetch failed" with the reason as the cause
+function describeError(error) {
+  if (error?.name === 'TimeoutError') return `timed out after ${DOWNLOAD_TIMEOUT_MS / 1000}s`;
+  const cause = error?.cause;
+  return cause?.message ?? error?.message ?? String(error);
+}
+
+// Minimal ustar reader: enough for npm package tarballs
+function* readTar(buffer) {
+  let offset = 0;
+  while (offset + 512 <= buffer.length) {
+    const header = buffer.subarray(offset, offset + 512);
+    if (header.every((byte) => byte === 0)) return;
+
+    const field = (start, length) => header.toString('utf8', start, start + length).replace(/\0.*$/s, '');
+    const size = parseInt(field(124, 12).trim() || '0', 8);
+    const prefix = field(345, 155);
+    const name = prefix ? `${prefix}/${field(0, 100)}` : field(0, 100);
+    const typeFlag = field(156, 1);
+
+    const dataStart = offset + 512;
+    yield {
+      name,
+      type: typeFlag === '0' || typeFlag === '' ? 'file' : 'other',
+      data: buffer.subarray(dataStart, dataStart + size),
+    };
+    offset = dataStart + Math.ceil(size / 512) * 512;
+  }
+}
@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+// Runs the command-line renderer in src/cli straight from the TypeScript
+// sources, so it always matches the app's compositing code.
+import { createRequire } from 'node:module';
+import { register } from 'tsx/cjs/api';
+
+register();
+createRequire(import.meta.url)('../src/cli/overlay.ts');
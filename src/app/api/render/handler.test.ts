@@ -0,0 +1,163 @@
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { GlobalFonts, createCanvas, loadImage } from '@napi-rs/canvas';
+import { describe, expect, it } from 'vitest';
+import { createFakeDetector } from '../../../utils/detectors/fakeDetector';
+import { createRenderHandler } from './handler';
+import { POST } from './route';
+
+const SIZE = 200;
+const GRAY = 128;
+
+// Renders with the fake detector, which puts the subject in an ellipse in the
+// middle regardless of content
+const renderWithFakeDetector = createRenderHandler({ detector: createFakeDetector() });
+
+// A plain gray image
+function grayImage(): Blob {
+  const canvas = createCanvas(SIZE, SIZE);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = `rgb(${GRAY}, ${GRAY}, ${GRAY})`;
+  ctx.fillRect(0, 0, SIZE, SIZE);
+  return new Blob([new Uint8Array(canvas.toBuffer('image/png'))], { type: 'image/png' });
+}
+
+function solidDataUrl(color: string): string {
+  const canvas = createCanvas(4, 4);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, 4, 4);
+  return canvas.toDataURL('image/png');
+}
+
+function renderRequest(design: unknown, fonts: Record<string, Blob> = {}): Request {
+  const form = new FormData();
+  form.set('image', grayImage());
+  form.set('design', JSON.stringify(design));
+  Object.entries(fonts).forEach(([family, file]) => form.set(`font:${family}`, file));
+  return new Request('http://localhost/api/render', { method: 'POST', body: form });
+}
+
+async function render(layers: unknown[], fonts: Record<string, Blob> = {}): Promise<Response> {
+  return renderWithFakeDetector(renderRequest({ layers, previewWidth: SIZE }, fonts));
+}
+
+async function decodePixels(response: Response) {
+  const image = await loadImage(Buffer.from(await response.arrayBuffer()));
+  const canvas = createCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, 0, 0);
+  return ctx.getImageData(0, 0, image.width, image.height);
+}
+
+// Pixels in a box that match a predicate on their RGB values
+function countPixels(
+  pixels: { data: Uint8ClampedArray; width: number },
+  box: { left: number; top: number; right: number; bottom: number },
+  matches: (r: number, g: number, b: number) => boolean
+): number {
+  let count = 0;
+  for (let y = box.top; y < box.bottom; y++) {
+    for (let x = box.left; x < box.right; x++) {
+      const i = (y * pixels.width + x) * 4;
+      if (matches(pixels.data[i], pixels.data[i + 1], pixels.data[i + 2])) count++;
+    }
+  }
+  return count;
+}
+
+const isRed = (r: number, g: number, b: number) => r > 200 && g < 80 && b < 80;
+const isBlue = (r: number, g: number, b: number) => b > 200 && r < 80 && g < 80;
+
+describe('createRenderHandler', () => {
+  it('renders a split layer in front above the line and behind the subject below it', async () => {
+    const response = await render([
+      {
+        content: 'HHHH',
+        size: 80,
+        color: '#ff0000',
+        depth: 'split',
+        split: { type: 'line', linePosition: 50, behindSide: 'below' },
+      },
+    ]);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('image/png');
+    const pixels = await decodePixels(response);
+    expect(pixels.width).toBe(SIZE);
+    expect(pixels.height).toBe(SIZE);
+
+    // Both boxes are inside the subject
+    expect(countPixels(pixels, { left: 70, top: 60, right: 130, bottom: 99 }, isRed)).toBeGreaterThan(0);
+    expect(countPixels(pixels, { left: 80, top: 101, right: 120, bottom: 140 }, isRed)).toBe(0);
+  });
+
+  it('fills text with an image texture', async () => {
+    const response = await render([
+      {
+        content: 'HHHH',
+        size: 80,
+        color: '#ff0000',
+        depth: 'front',
+        fill: { type: 'image', image: solidDataUrl('#0000ff') },
+      },
+    ]);
+
+    expect(response.status).toBe(200);
+    const pixels = await decodePixels(response);
+    const box = { left: 0, top: 60, right: SIZE, bottom: 140 };
+    expect(countPixels(pixels, box, isBlue)).toBeGreaterThan(0);
+    expect(countPixels(pixels, box, isRed)).toBe(0);
+  });
+
+  it('removes uploaded fonts once the request is done', async () => {
+    const fontPath = createRequire(import.meta.url).resolve(
+      'next/dist/compiled/@vercel/og/noto-sans-v27-latin-regular.ttf'
+    );
+    const font = new Blob([new Uint8Array(await readFile(fontPath))]);
+    const familyCount = GlobalFonts.families.length;
+
+    const response = await render([{ content: 'HHHH', font: 'Arial', depth: 'front' }], { Arial: font });
+
+    expect(response.status).toBe(200);
+    expect(GlobalFonts.families.length).toBe(familyCount);
+    expect(GlobalFonts.families.some(({ family }) => family.startsWith('upload-'))).toBe(false);
+  });
+
+  it('rejects layer values outside their range', async () => {
+    const response = await render([{ content: 'HHHH', shadow: { enabled: true, blur: 5000 } }]);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Layer 1: "shadow.blur" must be between 0 and 200' });
+  });
+
+  it('rejects bodies over the size limit before parsing them', async () => {
+    const body = new Uint8Array(40 * 1024 * 1024 + 1);
+    const response = await renderWithFakeDetector(new Request('http://localhost/api/render', { method: 'POST', body }));
+
+    expect(response.status).toBe(413);
+  });
+
+  it('rejects fill images that are not data URLs', async () => {
+    const response = await render([{ fill: { type: 'image', image: '/etc/passwd' } }]);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'A layer has a fill image that could not be loaded' });
+  });
+});
+
+describe('POST /api/render', () => {
+  it('does not offer the fake detector', async () => {
+    const response = await POST(renderRequest({ layers: [], detection: { method: 'fake' } }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Detection method must be one of chroma-key, mask-file' });
+  });
+
+  it('explains that the AI model is browser-only', async () => {
+    const response = await POST(renderRequest({ layers: [], detection: { method: 'model' } }));
+
+    expect(response.status).toBe(422);
+    expect((await response.json()).error).toMatch(/only runs in the browser/);
+  });
+});
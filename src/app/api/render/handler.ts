@@ -0,0 +1,110 @@
+import { DetectionError, ForegroundDetector } from '../../../utils/foregroundDetection';
+import { RenderRequestError, ServerFont, parseRenderDesign, renderOverlay } from '../../../utils/serverRender';
+
+const FONT_FIELD_PREFIX = 'font:';
+// Enough for a large photo, its mask and a few fonts
+const MAX_BODY_BYTES = 40 * 1024 * 1024;
+
+export interface RenderHandlerOptions {
+  // Replaces the detection method of every request, so tests can render
+  // without a real subject
+  detector?: ForegroundDetector;
+}
+
+/**
+ * The POST handler of /api/render; see the route for the request format
+ */
+export function createRenderHandler({ detector }: RenderHandlerOptions = {}) {
+  return (request: Request) => handleRender(request, detector);
+}
+
+async function handleRender(request: Request, detector: ForegroundDetector | undefined): Promise<Response> {
+  const body = await readBody(request, MAX_BODY_BYTES);
+  if (!body) {
+    return errorResponse(`The request body must be at most ${MAX_BODY_BYTES / 1024 / 1024} MB`, 413);
+  }
+
+  let form: FormData;
+  try {
+    const headers = { 'Content-Type': request.headers.get('Content-Type') ?? '' };
+    form = await new Response(body, { headers }).formData();
+  } catch {
+    return errorResponse('Expected a multipart/form-data body', 400);
+  }
+
+  try {
+    const image = form.get('image');
+    if (!(image instanceof Blob)) {
+      throw new RenderRequestError('Missing "image" file');
+    }
+    const mask = form.get('mask');
+    const hasMask = mask instanceof Blob;
+
+    let design: unknown;
+    try {
+      design = JSON.parse(String(form.get('design') ?? ''));
+    } catch {
+      throw new RenderRequestError('"design" must be valid JSON');
+    }
+
+    const fonts: ServerFont[] = [];
+    for (const [name, value] of Array.from(form.entries())) {
+      if (name.startsWith(FONT_FIELD_PREFIX) && value instanceof Blob) {
+        fonts.push({ family: name.slice(FONT_FIELD_PREFIX.length), data: new Uint8Array(await value.arrayBuffer()) });
+      }
+    }
+
+    const { data, mimeType } = await renderOverlay({
+      image: new Uint8Array(await image.arrayBuffer()),
+      design: parseRenderDesign(design, hasMask),
+      mask: hasMask ? new Uint8Array(await mask.arrayBuffer()) : null,
+      fonts,
+      detector,
+    });
+    return new Response(new Uint8Array(data), {
+      headers: { 'Content-Type': mimeType, 'Content-Length': String(data.length) },
+    });
+  } catch (error) {
+    if (error instanceof RenderRequestError) {
+      return errorResponse(error.message, 400);
+    }
+    if (error instanceof DetectionError) {
+      return errorResponse(error.message, 422);
+    }
+    console.error('Error rendering overlay:', error);
+    return errorResponse('Rendering failed', 500);
+  }
+}
+
+// The body, or null when it is larger than the limit. Stops reading as soon as
+// the limit is passed, whether or not the client sent a Content-Length.
+async function readBody(request: Request, limit: number): Promise<Uint8Array<ArrayBuffer> | null> {
+  if (Number(request.headers.get('Content-Length')) > limit) return null;
+  if (!request.body) return new Uint8Array(0);
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(length);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return body;
+}
+
+function errorResponse(message: string, status: number) {
+  return Response.json({ error: message }, { status });
+}
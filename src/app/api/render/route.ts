@@ -0,0 +1,26 @@
+import { createRenderHandler } from './handler';
+
+// @napi-rs/canvas is a native module
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Render a text design over an image without a browser.
+ *
+ * Expects multipart/form-data with:
+ * - `image`: the photo
+ * - `design`: JSON with `layers` (the editor's text layers) and optional
+ *   `maskRefinement`, `previewWidth`, `format`, `quality`, `scale`,
+ *   `transparentBackground` and `detection` (`{ method, chromaKey }`, where
+ *   method is `chroma-key` or `mask-file`)
+ * - `mask`: a mask image, for the mask-file method
+ * - `font:<family>`: font files used by the layers
+ *
+ * The AI model only runs in the browser, so the `model` method is answered
+ * with 422; key out a solid background or send the mask made in the editor.
+ *
+ * Responds with the encoded image, or JSON `{ error }`. Bodies over the size
+ * limit are refused with 413, and outputs above the pixel budget are scaled
+ * down.
+ */
+export const POST = createRenderHandler();
@@ -0,0 +1,375 @@
+import { mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import fastGlob from 'fast-glob';
+import { EXPORT_FORMATS, ExportFormat, buildExportFilename, DEFAULT_EXPORT_OPTIONS } from '../utils/exportImage';
+import { createFakeDetector } from '../utils/detectors/fakeDetector';
+import { DetectionError, ForegroundDetector } from '../utils/foregroundDetection';
+import { PROJECT_EXTENSION, ProjectFileError, loadProject } from '../utils/projectFile';
+import {
+  RenderDesign,
+  RenderRequestError,
+  ServerFont,
+  parseRenderDesign,
+  renderOverlay,
+  renderProjectOverlay,
+} from '../utils/serverRender';
+import { LAYER_DEPTHS, LayerDepth } from '../core/textLayers';
+
+const USAGE = `Usage: overlay render <images or globs...> [options]
+
+Renders text behind the subject of each image. Saved ${PROJECT_EXTENSION} projects
+are rendered with their own mask and design.
+
+Design:
+  --design <file>       JSON design (as posted to /api/render) or a ${PROJECT_EXTENSION}
+                        project whose layers are applied to every image
+  --text <text>         Add a text layer; the options below style it
+  --font <family>       Font family (default Arial)
+  --size <px>           Font size in preview pixels (default 24)
+  --color <#rrggbb>     Text color (default #ffffff)
+  --x <0-100>           Horizontal position in percent (default 50)
+  --y <0-100>           Vertical position in percent (default 50)
+  --depth <depth>       behind, front or split (default behind)
+  --font-file <file>    Font file to use, as [Family=]path; repeatable
+
+Detection:
+  --detect <method>     chroma-key, mask-file or fake (default chroma-key, or
+                        mask-file when --mask is given). fake always puts the
+                        subject in the middle, for trying out designs
+  --mask <file>         Mask image for a single input
+  --key-color <#rrggbb> Background color to key out (default: sampled corners)
+  --tolerance <n>       Color distance treated as background (default 40)
+  --softness <n>        Width of the edge fade (default 30)
+
+Output:
+  -o, --output <path>   Output file for a single input, otherwise a directory
+                        (default: current directory)
+  --format <format>     png, jpeg or webp (default: from --output, else png)
+  --quality <0-1>       Quality for jpeg and webp (default 0.92)
+  --scale <n>           Multiple of the original resolution (default 1)
+  --transparent         Leave the background transparent (png and webp)
+  -h, --help            Show this help
+
+Exits with 1 if any image fails and 2 for invalid arguments.`;
+
+// Thrown for mistakes in the command line, which exit with status 2
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+// Thrown when a file named on the command line can't be read
+class InputError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'InputError';
+  }
+}
+
+// Readable reasons for common file system errors
+const READ_ERROR_REASONS: Record<string, string> = {
+  ENOENT: 'no such file',
+  EISDIR: 'it is a directory',
+  EACCES: 'permission denied',
+};
+
+interface RenderJob {
+  input: string;
+  output: string;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      design: { type: 'string' },
+      text: { type: 'string' },
+      font: { type: 'string' },
+      size: { type: 'string' },
+      color: { type: 'string' },
+      x: { type: 'string' },
+      y: { type: 'string' },
+      depth: { type: 'string' },
+      'font-file': { type: 'string', multiple: true },
+      detect: { type: 'string' },
+      mask: { type: 'string' },
+      'key-color': { type: 'string' },
+      tolerance: { type: 'string' },
+      softness: { type: 'string' },
+      output: { type: 'string', short: 'o' },
+      format: { type: 'string' },
+      quality: { type: 'string' },
+      scale: { type: 'string' },
+      transparent: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const [command, ...patterns] = positionals;
+  if (values.help || command === 'help') {
+    console.log(USAGE);
+    return 0;
+  }
+  if (command !== 'render') {
+    throw new UsageError(command ? `Unknown command "${command}"` : 'Missing command');
+  }
+
+  const inputs = await expandInputs(patterns);
+  if (values.mask && inputs.length > 1) {
+    throw new UsageError('--mask can only be used with a single input');
+  }
+
+  const fontFiles = await Promise.all((values['font-file'] ?? []).map(readFontFile));
+  const base = values.design ? await readDesignFile(values.design) : { design: {}, fonts: [] };
+  const fonts = [...base.fonts, ...fontFiles];
+
+  const baseDetection = asRecord(base.design.detection);
+  const baseChromaKey = asRecord(baseDetection.chromaKey);
+  const format = values.format ?? formatFromPath(inputs.length === 1 ? values.output : undefined);
+  const design = parseRenderDesign(
+    {
+      ...base.design,
+      layers: [...((base.design.layers as unknown[] | undefined) ?? []), ...getTextFlagLayers(values)],
+      detection: {
+        ...baseDetection,
+        ...definedEntries({ method: values.detect === 'fake' ? undefined : values.detect }),
+        chromaKey: {
+          ...baseChromaKey,
+          ...definedEntries({
+            color: values['key-color'],
+            tolerance: parseNumberFlag('tolerance', values.tolerance),
+            softness: parseNumberFlag('softness', values.softness),
+          }),
+        },
+      },
+      ...definedEntries({
+        format,
+        quality: parseNumberFlag('quality', values.quality),
+        scale: parseNumberFlag('scale', values.scale),
+        transparentBackground: values.transparent,
+      }),
+    },
+    Boolean(values.mask)
+  );
+  // Projects bring their own layers; other images need some
+  if (design.layers.length === 0 && !inputs.every(isProjectPath)) {
+    throw new UsageError('Nothing to render: add --text or a --design with layers');
+  }
+  const mask = values.mask ? await readInputFile(values.mask) : null;
+  const detector = values.detect === 'fake' ? createFakeDetector() : undefined;
+
+  const jobs = await planOutputs(inputs, values.output, design);
+  let failures = 0;
+  for (const job of jobs) {
+    try {
+      await renderJob(job, design, mask, fonts, detector);
+      console.log(`${job.input} -> ${job.output}`);
+    } catch (error) {
+      failures++;
+      // Read errors already name the file
+      const message = error instanceof InputError ? error.message : `${job.input}: ${describeError(error)}`;
+      console.error(`overlay: ${message}`);
+    }
+  }
+
+  if (failures > 0) {
+    console.error(`overlay: ${failures} of ${jobs.length} images failed`);
+    return 1;
+  }
+  return 0;
+}
+
+async function renderJob(
+  job: RenderJob,
+  design: RenderDesign,
+  mask: Uint8Array | null,
+  fonts: ServerFont[],
+  detector: ForegroundDetector | undefined
+): Promise<void> {
+  const data = await readInputFile(job.input);
+  const rendered = isProjectPath(job.input)
+    ? await renderProjectOverlay(await loadProject(new Blob([data as BlobPart])), design, fonts)
+    : await renderOverlay({ image: data, design, mask, fonts, detector });
+  await writeFile(job.output, rendered.data);
+}
+
+// Globs are expanded here too so quoted patterns work in scripts and on Windows
+async function expandInputs(patterns: string[]): Promise<string[]> {
+  if (patterns.length === 0) {
+    throw new UsageError('No input images given');
+  }
+
+  const inputs: string[] = [];
+  for (const pattern of patterns) {
+    if (fastGlob.isDynamicPattern(pattern)) {
+      const matches = await fastGlob(pattern, { onlyFiles: true });
+      if (matches.length === 0) {
+        throw new UsageError(`No files match ${pattern}`);
+      }
+      inputs.push(...matches.sort());
+    } else {
+      inputs.push(pattern);
+    }
+  }
+  return Array.from(new Set(inputs));
+}
+
+async function planOutputs(inputs: string[], output: string | undefined, design: RenderDesign): Promise<RenderJob[]> {
+  const isDirectory = output ? await stat(output).then((info) => info.isDirectory(), () => false) : true;
+  if (inputs.length === 1 && output && !isDirectory) {
+    return [{ input: inputs[0], output }];
+  }
+
+  const directory = output ?? '.';
+  await mkdir(directory, { recursive: true });
+  const used = new Set<string>();
+  return inputs.map((input) => {
+    let filename = buildExportFilename(
+      DEFAULT_EXPORT_OPTIONS.filenameTemplate,
+      { name: basename(input), width: 0, height: 0, scale: design.scale },
+      design.format
+    );
+    // Inputs with the same name from different folders
+    for (let n = 2; used.has(filename); n++) {
+      filename = filename.replace(/(-\d+)?(\.\w+)$/, `-${n}$2`);
+    }
+    used.add(filename);
+    return { input, output: join(directory, filename) };
+  });
+}
+
+async function readDesignFile(path: string): Promise<{
+  design: Record<string, unknown>;
+  fonts: ServerFont[];
+}> {
+  const data = await readInputFile(path);
+  if (isProjectPath(path)) {
+    const project = await loadProject(new Blob([data as BlobPart]));
+    return {
+      design: { layers: project.layers, maskRefinement: project.maskRefinement },
+      fonts: project.fonts.map((font) => ({ family: font.family, data: new Uint8Array(font.data) })),
+    };
+  }
+
+  let design: unknown;
+  try {
+    design = JSON.parse(Buffer.from(data).toString('utf8'));
+  } catch {
+    throw new UsageError(`${path} is not valid JSON`);
+  }
+  if (typeof design !== 'object' || design === null || Array.isArray(design)) {
+    throw new UsageError(`${path} must contain a JSON object`);
+  }
+  return { design: design as Record<string, unknown>, fonts: [] };
+}
+
+async function readFontFile(spec: string): Promise<ServerFont> {
+  const separator = spec.indexOf('=');
+  const path = separator > 0 ? spec.slice(separator + 1) : spec;
+  const family = separator > 0 ? spec.slice(0, separator) : basename(path, extname(path));
+  return { family, data: await readInputFile(path) };
+}
+
+async function readInputFile(path: string): Promise<Uint8Array> {
+  try {
+    return new Uint8Array(await readFile(path));
+  } catch (error) {
+    const code = String((error as { code?: unknown }).code);
+    const reason = READ_ERROR_REASONS[code] ?? (error instanceof Error ? error.message : String(error));
+    throw new InputError(`Cannot read ${path}: ${reason}`, { cause: error });
+  }
+}
+
+// The layer described by --text and its styling flags, if any. The styling
+// flags are checked even without --text, so mistakes in them aren't ignored.
+function getTextFlagLayers(values: Record<string, string | boolean | string[] | undefined>) {
+  const style = definedEntries({
+    font: values.font,
+    size: parseNumberFlag('size', values.size as string | undefined),
+    color: values.color,
+    x: parseNumberFlag('x', values.x as string | undefined),
+    y: parseNumberFlag('y', values.y as string | undefined),
+    depth: parseDepthFlag(values.depth as string | undefined),
+  });
+  if (typeof values.text !== 'string') {
+    const unused = Object.keys(style);
+    if (unused.length > 0) {
+      throw new UsageError(`--${unused[0]} styles the --text layer, so it needs --text`);
+    }
+    return [];
+  }
+  return [{ content: values.text, ...style }];
+}
+
+function parseNumberFlag(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number)) {
+    throw new UsageError(`--${name} must be a number`);
+  }
+  return number;
+}
+
+function parseDepthFlag(value: string | undefined): LayerDepth | undefined {
+  if (value === undefined) return undefined;
+  const depth = LAYER_DEPTHS.find((option) => option === value);
+  if (!depth) {
+    throw new UsageError('--depth must be behind, front or split');
+  }
+  return depth;
+}
+
+function formatFromPath(path: string | undefined): ExportFormat | undefined {
+  const extension = path ? extname(path).slice(1).toLowerCase() : '';
+  if (!extension) return undefined;
+  return (Object.keys(EXPORT_FORMATS) as ExportFormat[]).find(
+    (format) => format === extension || EXPORT_FORMATS[format].extension === extension
+  );
+}
+
+function isProjectPath(path: string): boolean {
+  return path.toLowerCase().endsWith(PROJECT_EXTENSION);
+}
+
+// Drop unset flags so the design's own values and the defaults apply
+function definedEntries<T extends Record<string, unknown>>(values: T): Partial<T> {
+  const result: Partial<T> = {};
+  (Object.keys(values) as (keyof T)[]).forEach((key) => {
+    if (values[key] !== undefined) result[key] = values[key];
+  });
+  return result;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof DetectionError || error instanceof ProjectFileError || error instanceof InputError) {
+    return error.message;
+  }
+  return error instanceof Error ? `Rendering failed: ${error.message}` : 'Rendering failed';
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    if (error instanceof UsageError || error instanceof RenderRequestError || isParseArgsError(error)) {
+      console.error(`overlay: ${error.message}\nRun "overlay --help" for usage.`);
+      process.exitCode = 2;
+    } else {
+      console.error(`overlay: ${describeError(error)}`);
+      process.exitCode = 1;
+    }
+  }
+);
+
+function isParseArgsError(error: unknown): error is Error {
+  return error instanceof Error && String((error as { code?: unknown }).code).startsWith('ERR_PARSE_ARGS');
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import React from 'react';
+import { BatchItem } from '../utils/batch';
+import { DETECTION_STAGE_LABELS } from '../utils/foregroundDetection';
+
+interface BatchPanelProps {
+  items: BatchItem[];
+  // Item whose own design is open in the editor, if any
+  activeItemId: string | null;
+  onCustomize: (item: BatchItem) => void;
+  onUseSharedDesign: (item: BatchItem) => void;
+  onRemove: (id: string) => void;
+  onRetry: (id: string) => void;
+  onClear: () => void;
+  onAddFiles: (files: File[]) => void;
+  onExport: () => void;
+  // Images rendered so far while exporting
+  exportProgress: { done: number; total: number } | null;
+  disabled?: boolean;
+}
+
+export default function BatchPanel({
+  items,
+  activeItemId,
+  onCustomize,
+  onUseSharedDesign,
+  onRemove,
+  onRetry,
+  onClear,
+  onAddFiles,
+  onExport,
+  exportProgress,
+  disabled = false,
+}: BatchPanelProps) {
+  const doneCount = items.filter((item) => item.status === 'done').length;
+  const isExporting = exportProgress !== null;
+  const buttonClass = `text-xs px-2 py-1 rounded border border-gray-300 bg-white hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed`;
+
+  const describeStatus = (item: BatchItem) => {
+    switch (item.status) {
+      case 'queued':
+        return 'Waiting';
+      case 'processing':
+        return item.progress ? DETECTION_STAGE_LABELS[item.progress.stage] : 'Starting';
+      case 'done':
+        return item.layers ? 'Ready · customized' : 'Ready';
+      case 'error':
+        return item.error ?? 'Failed';
+    }
+  };
+
+  return (
+    <div className="card mb-4">
+      <div className="flex justify-between items-center mb-3">
+        <h2 className="text-xl font-semibold text-foreground">Batch</h2>
+        <span className="text-xs text-gray-500">
+          {doneCount} of {items.length} ready
+        </span>
+      </div>
+
+      <p className="text-xs text-gray-500 mb-2">
+        The current design is applied to every image. Customize an image to give it its own layers.
+      </p>
+
+      <ul className="space-y-2 max-h-80 overflow-y-auto">
+        {items.map((item) => {
+          const isActive = item.id === activeItemId;
+          return (
+            <li
+              key={item.id}
+              className={`flex items-center gap-2 p-2 rounded-md border ${
+                isActive ? 'border-blue-500 bg-blue-50' : 'border-gray-200 bg-white'
+              }`}
+            >
+              <img
+                src={item.previewUrl}
+                alt=""
+                className="w-10 h-10 object-cover rounded bg-gray-100 flex-shrink-0"
+              />
+              <div className="flex-1 min-w-0">
+                <span className="block text-sm text-gray-700 truncate" title={item.file.name}>
+                  {item.file.name}
+                </span>
+                <span
+                  className={`block text-xs truncate ${item.status === 'error' ? 'text-red-600' : 'text-gray-500'}`}
+                  title={describeStatus(item)}
+                >
+                  {describeStatus(item)}
+                </span>
+                {item.status === 'processing' && (
+                  <div className="mt-1 h-1 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-500 transition-all"
+                      style={{ width: `${Math.round((item.progress?.progress ?? 0) * 100)}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+              <div className="flex gap-1 flex-shrink-0">
+                {item.status === 'done' && (
+                  <button
+                    onClick={() => onCustomize(item)}
+                    className={buttonClass}
+                    disabled={disabled || isExporting || isActive}
+                  >
+                    {isActive ? 'Editing' : 'Customize'}
+                  </button>
+                )}
+                {item.status === 'done' && item.layers && (
+                  <button
+                    onClick={() => onUseSharedDesign(item)}
+                    className={buttonClass}
+                    disabled={disabled || isExporting}
+                    title="Drop this image's changes and use the shared design"
+                  >
+                    Reset
+                  </button>
+                )}
+                {item.status === 'error' && (
+                  <button onClick={() => onRetry(item.id)} className={buttonClass} disabled={isExporting}>
+                    Retry
+                  </button>
+                )}
+                <button
+                  onClick={() => onRemove(item.id)}
+                  className={`${buttonClass} text-red-600`}
+                  disabled={isExporting || isActive}
+                  aria-label={`Remove ${item.file.name}`}
+                >
+                  ×
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex gap-2 mt-3">
+        <button
+          onClick={onExport}
+          className="flex-1 py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-md transition-colors disabled:opacity-50"
+          disabled={disabled || isExporting || doneCount === 0}
+        >
+          {isExporting
+            ? `Exporting ${exportProgress.done} of ${exportProgress.total}…`
+            : `Download ZIP (${doneCount})`}
+        </button>
+        <label className={`${buttonClass} flex items-center ${isExporting ? 'opacity-50' : 'cursor-pointer'}`}>
+          Add…
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            onChange={(e) => {
+              onAddFiles(Array.from(e.target.files ?? []));
+              e.target.value = '';
+            }}
+            disabled={isExporting}
+            className="hidden"
+          />
+        </label>
+        <button onClick={onClear} className={buttonClass} disabled={isExporting}>
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+}
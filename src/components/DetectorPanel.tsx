@@ -0,0 +1,272 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { DETECTION_METHODS, DetectionMethod, DetectorSettings } from '../utils/detectors/createDetector';
+import { ChromaKeySettings } from '../utils/detectors/chromaKeyDetector';
+import {
+  IMGLY_DEVICE_OPTIONS,
+  IMGLY_MODEL_OPTIONS,
+  ImglyDevice,
+  ImglyModel,
+  ImglySettings,
+} from '../utils/detectors/imglyDetector';
+import { OFFLINE_STATUS_LABELS, OfflineStatus } from '../utils/offlineAssets';
+
+interface DetectorPanelProps {
+  settings: DetectorSettings;
+  setSettings: React.Dispatch<React.SetStateAction<DetectorSettings>>;
+  offlineStatus: OfflineStatus;
+  isOnline: boolean;
+  onMakeAvailableOffline: () => void;
+  disabled?: boolean;
+}
+
+function isSame<T extends object>(a: T, b: T): boolean {
+  return (Object.keys(b) as (keyof T)[]).every((key) => a[key] === b[key]);
+}
+
+export default function DetectorPanel({
+  settings,
+  setSettings,
+  offlineStatus,
+  isOnline,
+  onMakeAvailableOffline,
+  disabled = false,
+}: DetectorPanelProps) {
+  // Changing settings re-runs detection, so sliders only apply when released
+  const [draftChromaKey, setDraftChromaKey] = useState<ChromaKeySettings>(settings.chromaKey);
+  const [draftPublicPath, setDraftPublicPath] = useState(settings.imgly.publicPath);
+
+  useEffect(() => {
+    setDraftChromaKey(settings.chromaKey);
+  }, [settings.chromaKey]);
+
+  useEffect(() => {
+    setDraftPublicPath(settings.imgly.publicPath);
+  }, [settings.imgly.publicPath]);
+
+  // Settings are only replaced when something changed, as a new object
+  // re-runs detection
+  const updateImgly = (changes: Partial<ImglySettings>) => {
+    setSettings((prev) => {
+      const imgly = { ...prev.imgly, ...changes };
+      return isSame(prev.imgly, imgly) ? prev : { ...prev, imgly };
+    });
+  };
+
+  const commitChromaKey = (changes: Partial<ChromaKeySettings> = {}) => {
+    const chromaKey = { ...draftChromaKey, ...changes };
+    setDraftChromaKey(chromaKey);
+    setSettings((prev) => (isSame(prev.chromaKey, chromaKey) ? prev : { ...prev, chromaKey }));
+  };
+
+  const handleMethodChange = (method: DetectionMethod) => {
+    setSettings((prev) => ({ ...prev, method }));
+  };
+
+  const handleMaskFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setSettings((prev) => ({ ...prev, method: 'mask-file', maskFile: file }));
+  };
+
+  const sliderClass = `w-full h-2 bg-gray-200 rounded-lg appearance-none ${
+    disabled ? 'cursor-not-allowed opacity-70' : 'cursor-pointer'
+  }`;
+
+  return (
+    <div className="mt-3">
+      <div className="flex items-center justify-between mb-1">
+        <label htmlFor="detection-method" className="block text-xs text-gray-600">
+          Subject Detection
+        </label>
+        {!isOnline && (
+          <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800">Offline</span>
+        )}
+      </div>
+      <select
+        id="detection-method"
+        value={settings.method}
+        onChange={(e) => handleMethodChange(e.target.value as DetectionMethod)}
+        className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md bg-white"
+        disabled={disabled}
+      >
+        {DETECTION_METHODS.map((method) => (
+          <option key={method.value} value={method.value}>
+            {method.label}
+          </option>
+        ))}
+      </select>
+      <p className="text-xs text-gray-500 mt-1">
+        {DETECTION_METHODS.find((method) => method.value === settings.method)?.description}
+      </p>
+
+      {settings.method === 'model' && (
+        <div className="mt-2 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label htmlFor="imgly-model" className="block text-xs text-gray-600 mb-1">
+                Model
+              </label>
+              <select
+                id="imgly-model"
+                value={settings.imgly.model}
+                onChange={(e) => updateImgly({ model: e.target.value as ImglyModel })}
+                className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md bg-white"
+                disabled={disabled}
+              >
+                {IMGLY_MODEL_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="imgly-device" className="block text-xs text-gray-600 mb-1">
+                Device
+              </label>
+              <select
+                id="imgly-device"
+                value={settings.imgly.device}
+                onChange={(e) => updateImgly({ device: e.target.value as ImglyDevice })}
+                className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md bg-white"
+                disabled={disabled}
+              >
+                {IMGLY_DEVICE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label htmlFor="imgly-public-path" className="block text-xs text-gray-600 mb-1">
+              Model asset URL
+            </label>
+            <input
+              id="imgly-public-path"
+              type="text"
+              value={draftPublicPath}
+              placeholder="Bundled with the app (default)"
+              onChange={(e) => setDraftPublicPath(e.target.value)}
+              onBlur={() => updateImgly({ publicPath: draftPublicPath.trim() })}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') updateImgly({ publicPath: draftPublicPath.trim() });
+              }}
+              className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md"
+              disabled={disabled}
+            />
+          </div>
+          {settings.imgly.publicPath ? (
+            <p className="text-xs text-gray-500">Assets from a custom URL are not saved for offline use.</p>
+          ) : (
+            <div className="flex items-center justify-between gap-2">
+              <span
+                className={`text-xs ${
+                  offlineStatus === 'ready'
+                    ? 'text-green-700'
+                    : offlineStatus === 'missing' || offlineStatus === 'not-cached'
+                      ? 'text-yellow-700'
+                      : 'text-gray-500'
+                }`}
+              >
+                {offlineStatus === 'ready' ? '● ' : '○ '}
+                {OFFLINE_STATUS_LABELS[offlineStatus]}
+              </span>
+              {offlineStatus === 'not-cached' && isOnline && (
+                <button
+                  onClick={onMakeAvailableOffline}
+                  className="py-1 px-2 text-xs border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 rounded-md transition-colors disabled:opacity-50"
+                  disabled={disabled}
+                >
+                  Save for offline
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {settings.method === 'chroma-key' && (
+        <div className="mt-2 space-y-2">
+          <div className="flex items-center gap-2">
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={draftChromaKey.color === null}
+                onChange={(e) => commitChromaKey({ color: e.target.checked ? null : '#00ff00' })}
+                disabled={disabled}
+                className="rounded text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-xs">Sample color from corners</span>
+            </label>
+            {draftChromaKey.color !== null && (
+              <input
+                type="color"
+                value={draftChromaKey.color}
+                onChange={(e) => commitChromaKey({ color: e.target.value })}
+                disabled={disabled}
+                className="w-8 h-6 rounded cursor-pointer"
+                aria-label="Background color"
+              />
+            )}
+          </div>
+          <div>
+            <label htmlFor="chroma-tolerance" className="block text-xs text-gray-600 mb-1">
+              Tolerance: {draftChromaKey.tolerance}
+            </label>
+            <input
+              id="chroma-tolerance"
+              type="range"
+              min="0"
+              max="200"
+              value={draftChromaKey.tolerance}
+              onChange={(e) => setDraftChromaKey((prev) => ({ ...prev, tolerance: Number(e.target.value) }))}
+              onMouseUp={() => commitChromaKey()}
+              onTouchEnd={() => commitChromaKey()}
+              onKeyUp={() => commitChromaKey()}
+              disabled={disabled}
+              className={sliderClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="chroma-softness" className="block text-xs text-gray-600 mb-1">
+              Edge Softness: {draftChromaKey.softness}
+            </label>
+            <input
+              id="chroma-softness"
+              type="range"
+              min="0"
+              max="100"
+              value={draftChromaKey.softness}
+              onChange={(e) => setDraftChromaKey((prev) => ({ ...prev, softness: Number(e.target.value) }))}
+              onMouseUp={() => commitChromaKey()}
+              onTouchEnd={() => commitChromaKey()}
+              onKeyUp={() => commitChromaKey()}
+              disabled={disabled}
+              className={sliderClass}
+            />
+          </div>
+        </div>
+      )}
+
+      {settings.method === 'mask-file' && (
+        <div className="mt-2">
+          <input
+            type="file"
+            accept="image/*"
+            onChange={handleMaskFileChange}
+            className="text-xs"
+            disabled={disabled}
+            aria-label="Mask image"
+          />
+          {settings.maskFile && (
+            <p className="text-xs text-gray-500 mt-1 truncate">Using {settings.maskFile.name}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
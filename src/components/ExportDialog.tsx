@@ -0,0 +1,202 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  EXPORT_FORMATS,
+  EXPORT_SCALES,
+  ExportFormat,
+  ExportOptions,
+  buildExportFilename,
+  formatFileSize,
+  getExportSize,
+} from '../utils/exportImage';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  options: ExportOptions;
+  setOptions: React.Dispatch<React.SetStateAction<ExportOptions>>;
+  sourceName: string;
+  imageWidth: number;
+  imageHeight: number;
+  estimateSize: (options: ExportOptions) => Promise<number>;
+  onExport: () => void;
+  isExporting?: boolean;
+}
+
+export default function ExportDialog({
+  isOpen,
+  onClose,
+  options,
+  setOptions,
+  sourceName,
+  imageWidth,
+  imageHeight,
+  estimateSize,
+  onExport,
+  isExporting = false,
+}: ExportDialogProps) {
+  const [estimatedSize, setEstimatedSize] = useState<number | null>(null);
+
+  const { width, height } = getExportSize(imageWidth, imageHeight, options.scale);
+  const format = EXPORT_FORMATS[options.format];
+  const filename = buildExportFilename(
+    options.filenameTemplate,
+    { name: sourceName, width, height, scale: options.scale },
+    options.format
+  );
+
+  // Re-estimate the file size shortly after the settings stop changing
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setEstimatedSize(null);
+    const timeout = setTimeout(() => {
+      estimateSize(options)
+        .then((size) => {
+          if (!cancelled) setEstimatedSize(size);
+        })
+        .catch((error) => console.error('Error estimating export size:', error));
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [isOpen, options, estimateSize]);
+
+  if (!isOpen) return null;
+
+  const handleFormatChange = (value: ExportFormat) => {
+    setOptions((prev) => ({
+      ...prev,
+      format: value,
+      // Formats without alpha cannot keep a transparent background
+      transparentBackground: EXPORT_FORMATS[value].supportsAlpha ? prev.transparentBackground : false,
+    }));
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="export-dialog-title"
+    >
+      <div className="card w-full max-w-md bg-card" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 id="export-dialog-title" className="text-xl font-semibold text-foreground">
+            Export Image
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-1">Format</p>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => handleFormatChange(value)}
+                  className={`text-sm py-2 rounded-md border transition-colors ${
+                    options.format === value
+                      ? 'border-blue-500 bg-blue-50 text-blue-700'
+                      : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {EXPORT_FORMATS[value].label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {format.lossy && (
+            <div>
+              <label htmlFor="export-quality" className="block text-sm font-medium text-gray-700 mb-1">
+                Quality: {Math.round(options.quality * 100)}%
+              </label>
+              <input
+                id="export-quality"
+                type="range"
+                min="10"
+                max="100"
+                value={Math.round(options.quality * 100)}
+                onChange={(e) => setOptions((prev) => ({ ...prev, quality: Number(e.target.value) / 100 }))}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+              />
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="export-scale" className="block text-sm font-medium text-gray-700 mb-1">
+              Size
+            </label>
+            <select
+              id="export-scale"
+              value={options.scale}
+              onChange={(e) => setOptions((prev) => ({ ...prev, scale: Number(e.target.value) }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            >
+              {EXPORT_SCALES.map((scale) => (
+                <option key={scale} value={scale}>
+                  {scale === 1 ? 'Original' : `${scale}x`}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              {width}×{height}px
+            </p>
+          </div>
+
+          {format.supportsAlpha && (
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={options.transparentBackground}
+                onChange={(e) => setOptions((prev) => ({ ...prev, transparentBackground: e.target.checked }))}
+                className="rounded text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-sm">Transparent background (text and subject only)</span>
+            </label>
+          )}
+
+          <div>
+            <label htmlFor="export-filename" className="block text-sm font-medium text-gray-700 mb-1">
+              File name
+            </label>
+            <input
+              id="export-filename"
+              type="text"
+              value={options.filenameTemplate}
+              onChange={(e) => setOptions((prev) => ({ ...prev, filenameTemplate: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Use {'{name}'}, {'{width}'}, {'{height}'} or {'{scale}'} — saves as{' '}
+              <span className="font-medium">{filename}</span>
+            </p>
+          </div>
+        </div>
+
+        <div className="mt-6 flex justify-between items-center">
+          <span className="text-sm text-gray-500">
+            Estimated size: {estimatedSize === null ? '…' : `~${formatFileSize(estimatedSize)}`}
+          </span>
+          <button
+            onClick={onExport}
+            className="py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-md transition-colors"
+            disabled={isExporting}
+          >
+            {isExporting ? 'Exporting...' : 'Download'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,59 +1,582 @@
 'use client';
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import TextEditor from './TextEditor';
-import { detectForeground } from '../utils/foregroundDetection';
+import LayerPanel from './LayerPanel';
+import ExportDialog from './ExportDialog';
+import BatchPanel from './BatchPanel';
+import DetectorPanel from './DetectorPanel';
+import MaskObjectsPanel, { MaskObjectItem } from './MaskObjectsPanel';
+import MaskToolsPanel from './MaskToolsPanel';
+import TextPlacementPanel from './TextPlacementPanel';
+import {
+  DETECTION_STAGE_LABELS,
+  DetectionError,
+  DetectionProgress,
+  ForegroundDetector,
+  isAbortError,
+} from '../utils/foregroundDetection';
+import {
+  DEFAULT_DETECTOR_SETTINGS,
+  DetectorSettings,
+  createDetector,
+  loadDetectorSettings,
+  saveDetectorSettings,
+} from '../utils/detectors/createDetector';
+import { createMaskFileDetector } from '../utils/detectors/maskFileDetector';
+import { BatchItem, createZip, loadImageElement } from '../utils/batch';
+import {
+  CacheStats,
+  clearSegmentationCache,
+  detectForegroundCached,
+  getSegmentationCacheStats,
+} from '../utils/segmentationCache';
+import {
+  OcclusionRegion,
+  TextLayer,
+  TextSettings,
+  createTextLayer,
+  duplicateTextLayer,
+  moveTextLayer,
+} from '../core/textLayers';
+import { createScratchCanvas } from '../core/canvasFactory';
+import { renderComposite } from '../core/compositor';
+// Installs DOM canvases for the compositing core
+import '../utils/domCanvas';
+import {
+  BrushStroke,
+  DEFAULT_MASK_TOOL_SETTINGS,
+  MaskEdit,
+  MaskPixels,
+  MaskToolSettings,
+  StrokePreview,
+  applyMaskEdits,
+  updateStrokePreview,
+} from '../utils/maskEditing';
+import {
+  MaskPoint,
+  MaskSegmentation,
+  createObjectThumbnail,
+  getObjectLabelAt,
+  removeMaskObjects,
+  segmentMask,
+} from '../utils/maskObjects';
+import { getPendingFillImages, loadFillImage } from '../core/textFills';
+import { measureTextLayer } from '../core/textRendering';
+import { DEFAULT_PLACEMENT_OPTIONS, TextPlacement, suggestTextPlacements } from '../utils/textPlacement';
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  ExportOptions,
+  ExportSource,
+  canvasToBlob,
+  downloadBlob,
+  estimateExportSize,
+  exportComposition,
+  formatFileSize,
+  getExportSize,
+  getPreviewSize,
+  renderCutoutCanvas,
+  renderMaskCanvas,
+} from '../utils/exportImage';
+import { PROJECT_EXTENSION, isProjectFile, loadProject, saveProject } from '../utils/projectFile';
+import {
+  DEFAULT_MASK_REFINEMENT,
+  ForegroundMask,
+  MaskRefinement,
+  prepareMask,
+} from '../core/maskProcessing';
+import { areLayerFontsReady, getUsedFonts, waitForLayerFonts } from '../utils/fontLibrary';
+import { useHistory } from '../hooks/useHistory';
+import { useFontLibrary } from '../hooks/useFontLibrary';
+import { useFrameScheduler } from '../hooks/useFrameScheduler';
+import { useOfflineStatus } from '../hooks/useOfflineStatus';
+import { useBatchQueue } from '../hooks/useBatchQueue';
 import { debounce } from 'lodash'; // If lodash is not available, use a simple debounce util
 
 // Update the type definition to avoid the timers module error
 type TimeoutRef = ReturnType<typeof setTimeout> | null;
 
-interface TextSettings {
-  content: string;
-  font: string;
-  size: number;
-  color: string;
-  x: number;
-  y: number;
+// The editable state covered by undo/redo
+interface EditorDocument {
+  layers: TextLayer[];
+  maskRefinement: MaskRefinement;
+  // Brush and wand edits applied on top of the detected mask
+  maskEdits: MaskEdit[];
+  // Objects the text runs over instead of behind
+  nonOccludingObjects: MaskPoint[];
 }
 
-export default function ImageTextOverlay() {
+// Size of object thumbnails in the objects list
+const OBJECT_THUMBNAIL_SIZE = 48;
+
+// Number of recent frames averaged for the render time readout
+const RENDER_TIME_SAMPLES = 30;
+const RENDER_TIME_REPORT_MS = 500;
+
+// Names of the top-level fields that differ between two objects
+function changedKeys<T extends object>(prev: T, next: T): string[] {
+  return (Object.keys(next) as (keyof T)[])
+    .filter((key) => prev[key] !== next[key])
+    .map(String)
+    .sort();
+}
+
+// Input types without text editing, where the app's undo should still apply
+const NON_TEXT_INPUT_TYPES = ['checkbox', 'radio', 'range', 'button', 'submit', 'reset', 'file', 'color'];
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement) return true;
+  return target instanceof HTMLInputElement && !NON_TEXT_INPUT_TYPES.includes(target.type);
+}
+
+interface ImageTextOverlayProps {
+  // Replaces the detection method chosen in the UI, e.g. with the fake
+  // detector so the editor can be exercised without downloading a model
+  detector?: ForegroundDetector;
+}
+
+export default function ImageTextOverlay({ detector: detectorOverride }: ImageTextOverlayProps = {}) {
   const [image, setImage] = useState<string | null>(null);
   const [imageFile, setImageFile] = useState<File | null>(null);
-  const [processedImage, setProcessedImage] = useState<string | null>(null);
-  const [textSettings, setTextSettings] = useState<TextSettings>({
-    content: 'Your custom text here',
-    font: 'Arial',
-    size: 24,
-    color: '#ffffff',
-    x: 50,
-    y: 50,
-  });
+  const [hasRendered, setHasRendered] = useState(false);
+  // Average main-thread time spent compositing a preview frame, in ms
+  const [renderTime, setRenderTime] = useState<number | null>(null);
+  // Bumped when a fill texture finishes loading so the canvas re-renders
+  const [fillImagesVersion, setFillImagesVersion] = useState(0);
+  // Bumped when a font used by a layer finishes loading
+  const [fontsVersion, setFontsVersion] = useState(0);
+  const { fonts: customFonts, addFont, addFontFiles, removeFont } = useFontLibrary();
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const {
+    state: editorDocument,
+    set: setEditorDocument,
+    undo,
+    redo,
+    reset: resetHistory,
+    canUndo,
+    canRedo,
+  } = useHistory<EditorDocument>(() => ({
+    layers: [createTextLayer()],
+    maskRefinement: DEFAULT_MASK_REFINEMENT,
+    maskEdits: [],
+    nonOccludingObjects: [],
+  }));
+  const { layers, maskRefinement, maskEdits, nonOccludingObjects } = editorDocument;
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(() => layers[0]?.id ?? null);
   const [showMask, setShowMask] = useState(false);
+  const [maskToolSettings, setMaskToolSettings] = useState<MaskToolSettings>(DEFAULT_MASK_TOOL_SETTINGS);
+  const [maskObjects, setMaskObjects] = useState<MaskObjectItem[]>([]);
+  // Outline of the brush under the pointer, in container pixels
+  const [brushCursor, setBrushCursor] = useState<{ left: number; top: number; radius: number } | null>(null);
   const [isDragActive, setIsDragActive] = useState(false);
+  // Percent of the text auto placement aims to hide behind the subject
+  const [placementTarget, setPlacementTarget] = useState(DEFAULT_PLACEMENT_OPTIONS.targetOcclusion * 100);
+  // Positions suggested for a layer and the one applied to it
+  const [placement, setPlacement] = useState<{ layerId: string; suggestions: TextPlacement[]; index: number } | null>(
+    null
+  );
 
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const textCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const frontTextCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const maskCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const originalImageRef = useRef<HTMLImageElement | null>(null);
   const foregroundImageRef = useRef<HTMLImageElement | null>(null);
   const foregroundUrlRef = useRef<string | null>(null);
-  const foregroundMaskRef = useRef<Uint8ClampedArray | null>(null);
+  const foregroundMaskRef = useRef<ForegroundMask | null>(null);
+  const preparedMaskRef = useRef<{
+    source: ForegroundMask;
+    refinement: MaskRefinement;
+    mask: ForegroundMask;
+  } | null>(null);
+  const editedMaskRef = useRef<{ base: ForegroundMask; edits: MaskEdit[]; mask: ForegroundMask } | null>(null);
+  const maskPixelsRef = useRef<{ base: ForegroundMask; pixels: MaskPixels } | null>(null);
+  const segmentationRef = useRef<{ mask: ForegroundMask; segmentation: MaskSegmentation } | null>(null);
+  // Brush stroke being painted, applied on top of the committed edits
+  const strokeRef = useRef<BrushStroke | null>(null);
+  const strokePreviewRef = useRef<StrokePreview | null>(null);
   const canvasContainerRef = useRef<HTMLDivElement | null>(null);
+  // Detection result restored from a project file, used instead of running detection
+  const pendingProjectRef = useRef<{ mask: ForegroundMask; foregroundUrl: string } | null>(null);
 
   const [isDragging, setIsDragging] = useState(false);
+  const [isDrawingRegion, setIsDrawingRegion] = useState(false);
+  const regionStartRef = useRef<{ x: number; y: number } | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
-  const [loadingProgress, setLoadingProgress] = useState(0);
-  const animationFrameRef = useRef<number | null>(null);
+  const [detectionProgress, setDetectionProgress] = useState<DetectionProgress | null>(null);
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+  const [detectorSettings, setDetectorSettings] = useState<DetectorSettings>(DEFAULT_DETECTOR_SETTINGS);
+  const detector = useMemo(
+    () => detectorOverride ?? createDetector(detectorSettings),
+    [detectorOverride, detectorSettings]
+  );
+  // Offline support only covers the model assets bundled with the app
+  const usesBundledModel =
+    !detectorOverride && detectorSettings.method === 'model' && !detectorSettings.imgly.publicPath;
+  const {
+    status: offlineStatus,
+    isOnline,
+    makeAvailableOffline,
+  } = useOfflineStatus(usesBundledModel ? detectorSettings.imgly.model : null);
+  const batch = useBatchQueue(detector);
+  // Batch image whose own layers are open in the editor
+  const [batchItemId, setBatchItemId] = useState<string | null>(null);
+  // The shared design, kept while a batch image is being customized
+  const sharedLayersRef = useRef<TextLayer[] | null>(null);
+  // Layers the customized image was opened with, to tell when they change
+  const batchOpenedLayersRef = useRef<TextLayer[] | null>(null);
+  const [batchExportProgress, setBatchExportProgress] = useState<{ done: number; total: number } | null>(null);
+  const renderTimesRef = useRef<{ samples: number[]; lastReport: number }>({ samples: [], lastReport: 0 });
   const workerTimeoutRef = useRef<TimeoutRef>(null);
   const dragRAF = useRef<number | null>(null);
+  const selectedLayerIdRef = useRef<string | null>(selectedLayerId);
+
+  const selectedLayer = layers.find((layer) => layer.id === selectedLayerId) ?? null;
+
+  // Keep a ref of the selection so stable callbacks always edit the current layer
+  useEffect(() => {
+    selectedLayerIdRef.current = selectedLayerId;
+    setIsDrawingRegion(false);
+  }, [selectedLayerId]);
+
+  // Undo/redo can remove the selected layer; fall back to the top of the stack
+  useEffect(() => {
+    if (selectedLayerId && !layers.some((layer) => layer.id === selectedLayerId)) {
+      setSelectedLayerId(layers[layers.length - 1]?.id ?? null);
+    }
+  }, [layers, selectedLayerId]);
+
+  const setLayers = useCallback(
+    (action: React.SetStateAction<TextLayer[]>) => {
+      setEditorDocument((prev) => ({
+        ...prev,
+        layers: action instanceof Function ? action(prev.layers) : action,
+      }));
+    },
+    [setEditorDocument]
+  );
+
+  const setMaskEdits = useCallback(
+    (action: React.SetStateAction<MaskEdit[]>) => {
+      setEditorDocument((prev) => ({
+        ...prev,
+        maskEdits: action instanceof Function ? action(prev.maskEdits) : action,
+      }));
+    },
+    [setEditorDocument]
+  );
 
-  // Handle image upload
+  // Slider scrubs of the same setting coalesce into one history entry
+  const setMaskRefinement = useCallback(
+    (action: React.SetStateAction<MaskRefinement>) => {
+      setEditorDocument(
+        (prev) => ({
+          ...prev,
+          maskRefinement: action instanceof Function ? action(prev.maskRefinement) : action,
+        }),
+        {
+          coalesceKey: (prev, next) =>
+            `refinement:${changedKeys(prev.maskRefinement, next.maskRefinement).join(',')}`,
+        }
+      );
+    },
+    [setEditorDocument]
+  );
+
+  // Apply a settings update to the selected layer only. Continuous edits of the
+  // same fields (dragging, slider scrubs, typing) coalesce into one history entry.
+  const setSelectedLayerSettings = useCallback<React.Dispatch<React.SetStateAction<TextSettings>>>(
+    (action) => {
+      const id = selectedLayerIdRef.current;
+      setEditorDocument(
+        (prev) => {
+          let changed = false;
+          const layers = prev.layers.map((layer) => {
+            if (layer.id !== id) return layer;
+            const next = { ...layer, ...(typeof action === 'function' ? action(layer) : action) };
+            if (changedKeys(layer, next).length === 0) return layer;
+            changed = true;
+            return next;
+          });
+          // Returning the same document keeps no-op updates out of the history
+          return changed ? { ...prev, layers } : prev;
+        },
+        {
+          coalesceKey: (prev, next) => {
+            const before = prev.layers.find((layer) => layer.id === id);
+            const after = next.layers.find((layer) => layer.id === id);
+            if (!before || !after) return null;
+            return `layer:${id}:${changedKeys(before, after).join(',')}`;
+          },
+        }
+      );
+    },
+    [setEditorDocument]
+  );
+
+  // Canvas text silently falls back to a default font until the face has
+  // loaded, so re-render once every font in use is ready
+  useEffect(() => {
+    if (areLayerFontsReady(layers)) return;
+
+    let cancelled = false;
+    waitForLayerFonts(layers).then(() => {
+      if (!cancelled) setFontsVersion((prev) => prev + 1);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [layers, customFonts]);
+
+  // Load textures used by image fills; layers render with their solid color until then
+  useEffect(() => {
+    const pending = getPendingFillImages(layers);
+    if (pending.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(
+      pending.map((src) =>
+        loadFillImage(src).catch((error) => console.error('Error loading fill image:', error))
+      )
+    ).then(() => {
+      if (!cancelled) setFillImagesVersion((prev) => prev + 1);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [layers]);
+
+  // Keyboard shortcuts for undo (Ctrl+Z) and redo (Ctrl+Shift+Z or Ctrl+Y)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Text fields keep their own undo
+      if (isEditableTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Layer stack operations
+  const handleAddLayer = () => {
+    const layer = createTextLayer({}, `Text layer ${layers.length + 1}`);
+    setLayers((prev) => [...prev, layer]);
+    setSelectedLayerId(layer.id);
+  };
+
+  const handleDuplicateLayer = (id: string) => {
+    const source = layers.find((layer) => layer.id === id);
+    if (!source) return;
+    const copy = duplicateTextLayer(source);
+    setLayers((prev) => {
+      const index = prev.findIndex((layer) => layer.id === id);
+      const next = [...prev];
+      next.splice(index + 1, 0, copy);
+      return next;
+    });
+    setSelectedLayerId(copy.id);
+  };
+
+  const handleDeleteLayer = (id: string) => {
+    const index = layers.findIndex((layer) => layer.id === id);
+    const remaining = layers.filter((layer) => layer.id !== id);
+    setLayers(remaining);
+    if (id === selectedLayerId) {
+      const fallback = remaining[Math.min(index, remaining.length - 1)];
+      setSelectedLayerId(fallback ? fallback.id : null);
+    }
+  };
+
+  const handleMoveLayer = (id: string, direction: 'up' | 'down') => {
+    setLayers((prev) => moveTextLayer(prev, id, direction));
+  };
+
+  // Handle image or project upload
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
+    handleFiles(Array.from(e.target.files ?? []));
+  };
+
+  // Open a single image or project, or queue several images as a batch
+  const handleFiles = (files: File[]) => {
+    const images = files.filter((file) => file.type.startsWith('image/'));
+    if (images.length > 1) {
+      batch.addFiles(images);
+      return;
+    }
+
+    const file = files.find((candidate) => candidate.type.startsWith('image/') || isProjectFile(candidate));
     if (!file) return;
 
+    // A new image isn't part of the batch, so stop customizing before the
+    // editor's layers are replaced
+    if (batchItemId !== null) {
+      handleFinishCustomizing();
+    }
+
+    if (isProjectFile(file)) {
+      handleProjectOpen(file);
+    } else {
+      loadSourceFile(file);
+    }
+  };
+
+  // Show a processed batch image in the editor, reusing its detection result
+  const openBatchImage = (item: BatchItem) => {
+    if (!item.mask || !item.cutout) return;
+    loadSourceFile(item.file);
+    pendingProjectRef.current = { mask: item.mask, foregroundUrl: URL.createObjectURL(item.cutout) };
+  };
+
+  // Give one batch image its own layers, starting from its current design
+  const handleCustomizeBatchItem = (item: BatchItem) => {
+    if (batchItemId === null) {
+      sharedLayersRef.current = layers;
+    }
+    const itemLayers = item.layers ?? sharedLayersRef.current ?? layers;
+
+    openBatchImage(item);
+    setBatchItemId(item.id);
+    batchOpenedLayersRef.current = itemLayers;
+    resetHistory((prev) => ({ ...prev, layers: itemLayers }));
+    setSelectedLayerId(itemLayers[itemLayers.length - 1]?.id ?? null);
+  };
+
+  // Go back to editing the design shared by all batch images
+  const handleFinishCustomizing = () => {
+    const sharedLayers = sharedLayersRef.current ?? layers;
+    setBatchItemId(null);
+    sharedLayersRef.current = null;
+    batchOpenedLayersRef.current = null;
+    resetHistory((prev) => ({ ...prev, layers: sharedLayers }));
+    setSelectedLayerId(sharedLayers[sharedLayers.length - 1]?.id ?? null);
+  };
+
+  const handleUseSharedDesign = (item: BatchItem) => {
+    batch.updateItem(item.id, { layers: null });
+    if (item.id === batchItemId) {
+      handleFinishCustomizing();
+    }
+  };
+
+  const handleClearBatch = () => {
+    if (batchItemId !== null) {
+      handleFinishCustomizing();
+    }
+    batch.clear();
+  };
+
+  // Changes made while customizing belong to that image only
+  useEffect(() => {
+    if (batchItemId === null || layers === batchOpenedLayersRef.current) return;
+    batch.updateItem(batchItemId, { layers });
+  }, [layers, batchItemId, batch.updateItem]);
+
+  // Show the first processed image when the editor is empty, so there is
+  // something to design on
+  useEffect(() => {
+    if (image || isProcessing) return;
+    const first = batch.items.find((item) => item.status === 'done');
+    if (first) openBatchImage(first);
+  }, [batch.items, image, isProcessing]);
+
+  // Render every processed batch image with its design and download them as a zip
+  const handleBatchExport = async () => {
+    const ready = batch.items.filter((item) => item.status === 'done' && item.mask);
+    if (ready.length === 0 || batchExportProgress) return;
+    const sharedLayers = batchItemId !== null ? (sharedLayersRef.current ?? layers) : layers;
+
+    setBatchExportProgress({ done: 0, total: ready.length });
+    try {
+      const files: { name: string; blob: Blob }[] = [];
+      for (const item of ready) {
+        const itemLayers = item.id === batchItemId ? layers : (item.layers ?? sharedLayers);
+        await waitForLayerFonts(itemLayers);
+        const itemImage = await loadImageElement(item.file);
+        const preview = getPreviewSize(itemImage.naturalWidth, itemImage.naturalHeight);
+        const { blob, filename } = await exportComposition(
+          {
+            image: itemImage,
+            mask: item.mask as ForegroundMask,
+            layers: itemLayers,
+            maskRefinement,
+            previewWidth: preview.width,
+            previewHeight: preview.height,
+          },
+          exportOptions,
+          item.file.name
+        );
+        files.push({ name: filename, blob });
+        setBatchExportProgress({ done: files.length, total: ready.length });
+      }
+      downloadBlob(await createZip(files), 'overlay-batch.zip');
+    } catch (error) {
+      console.error('Error exporting batch:', error);
+      alert('Error exporting the batch. Try a smaller export size.');
+    } finally {
+      setBatchExportProgress(null);
+    }
+  };
+
+  // Restore a saved project without re-running background removal
+  const handleProjectOpen = async (file: File) => {
+    try {
+      const project = await loadProject(file);
+      // Make embedded fonts available before the layers that use them render.
+      // The library may already hold a different font under the same name, in
+      // which case the embedded one is added under a new name.
+      const renamed = new Map<string, string>();
+      for (const font of project.fonts) {
+        try {
+          const stored = await addFont(font);
+          if (stored.family !== font.family) renamed.set(font.family, stored.family);
+        } catch (error) {
+          console.error(`Error adding font ${font.family}:`, error);
+        }
+      }
+      const layers = project.layers.map((layer) =>
+        renamed.has(layer.font) ? { ...layer, font: renamed.get(layer.font) as string } : layer
+      );
+      loadSourceFile(project.source);
+
+      pendingProjectRef.current = {
+        mask: project.mask,
+        foregroundUrl: URL.createObjectURL(project.cutout),
+      };
+      resetHistory({
+        layers,
+        maskRefinement: project.maskRefinement,
+        maskEdits: [],
+        nonOccludingObjects: project.nonOccludingObjects,
+      });
+      setSelectedLayerId(layers[layers.length - 1]?.id ?? null);
+    } catch (error) {
+      console.error('Error opening project:', error);
+      alert(error instanceof Error ? error.message : 'Error opening project file.');
+    }
+  };
+
+  // Start processing a new source image
+  const loadSourceFile = (file: File) => {
+    // Mask edits and object settings belong to the previous image; undoing
+    // past this point would put them on the new one
+    resetHistory((prev) => ({ ...prev, maskEdits: [], nonOccludingObjects: [] }));
+
     // Reset previous state
     if (foregroundMaskRef.current) {
       foregroundMaskRef.current = null;
@@ -76,8 +599,14 @@ export default function ImageTextOverlay() {
       clearTimeout(workerTimeoutRef.current);
     }
 
+    if (pendingProjectRef.current) {
+      URL.revokeObjectURL(pendingProjectRef.current.foregroundUrl);
+      pendingProjectRef.current = null;
+    }
+
     setIsProcessing(true);
-    setLoadingProgress(10);
+    setHasRendered(false);
+    setDetectionProgress(null);
     setImageFile(file);
 
     const reader = new FileReader();
@@ -110,10 +639,7 @@ export default function ImageTextOverlay() {
     e.preventDefault();
     e.stopPropagation();
     setIsDragActive(false);
-    const file = e.dataTransfer.files?.[0];
-    if (file && file.type.startsWith('image/')) {
-      handleImageUpload({ target: { files: [file] } } as any);
-    }
+    handleFiles(Array.from(e.dataTransfer.files ?? []));
   };
 
   // Process the image with background removal when image is loaded
@@ -121,10 +647,16 @@ export default function ImageTextOverlay() {
     if (!image || !imageFile) return;
 
     setIsProcessing(true);
-    setLoadingProgress(20);
+
+    // Aborted when another image is loaded or the component unmounts, so a
+    // stale result never lands on the new image
+    const controller = new AbortController();
+    const { signal } = controller;
 
     const img = new Image();
     img.onload = async () => {
+      if (signal.aborted) return;
+
       // Ensure image has valid dimensions
       if (img.width === 0 || img.height === 0) {
         setIsProcessing(false);
@@ -134,55 +666,48 @@ export default function ImageTextOverlay() {
 
       // Store the original image for reuse
       originalImageRef.current = img;
-      setLoadingProgress(30);
 
       try {
-        // Process the image with background removal
-        const result = await detectForeground(
-          imageFile,
-          undefined,
-          true,
-          (progress) => {
-            // Update progress in UI from 30% to 80%
-            setLoadingProgress(30 + Math.floor(progress * 0.5));
-          }
-        );
-
-        if (!result.mask || !result.foregroundUrl) {
-          throw new Error('Background removal failed to return valid results');
+        // Reuse the detection result of an opened project, otherwise find
+        // the subject with the selected detector
+        const pendingProject = pendingProjectRef.current;
+        pendingProjectRef.current = null;
+
+        const result =
+          pendingProject ??
+          (await detectForegroundCached(detector, imageFile, {
+            signal,
+            onProgress: setDetectionProgress,
+          }));
+
+        if (signal.aborted) {
+          URL.revokeObjectURL(result.foregroundUrl);
+          return;
         }
 
-        // Store the foreground mask for later use
+        // Store the foreground mask for later use, replacing the result of a
+        // previous detector on the same image
+        if (foregroundUrlRef.current) {
+          URL.revokeObjectURL(foregroundUrlRef.current);
+        }
         foregroundMaskRef.current = result.mask;
         foregroundUrlRef.current = result.foregroundUrl;
 
         // Load the foreground image
         const foregroundImg = new Image();
         foregroundImg.onload = () => {
+          if (signal.aborted) return;
           foregroundImageRef.current = foregroundImg;
-          setLoadingProgress(90);
 
           // Set up canvas dimensions based on the image
-          if (canvasRef.current && textCanvasRef.current && maskCanvasRef.current) {
-            const maxDimension = 1200;
-            let canvasWidth = img.width;
-            let canvasHeight = img.height;
-
+          if (
+            canvasRef.current &&
+            textCanvasRef.current &&
+            frontTextCanvasRef.current &&
+            maskCanvasRef.current
+          ) {
             // Resize large images for better performance
-            if (canvasWidth > maxDimension || canvasHeight > maxDimension) {
-              if (canvasWidth > canvasHeight) {
-                const ratio = maxDimension / canvasWidth;
-                canvasWidth = maxDimension;
-                canvasHeight = Math.floor(canvasHeight * ratio);
-              } else {
-                const ratio = maxDimension / canvasHeight;
-                canvasHeight = maxDimension;
-                canvasWidth = Math.floor(canvasWidth * ratio);
-              }
-            }
-
-            canvasWidth = Math.max(1, canvasWidth);
-            canvasHeight = Math.max(1, canvasHeight);
+            const { width: canvasWidth, height: canvasHeight } = getPreviewSize(img.width, img.height);
 
             setCanvasSize({ width: canvasWidth, height: canvasHeight });
 
@@ -190,36 +715,23 @@ export default function ImageTextOverlay() {
             canvasRef.current.height = canvasHeight;
             textCanvasRef.current.width = canvasWidth;
             textCanvasRef.current.height = canvasHeight;
+            frontTextCanvasRef.current.width = canvasWidth;
+            frontTextCanvasRef.current.height = canvasHeight;
             maskCanvasRef.current.width = canvasWidth;
             maskCanvasRef.current.height = canvasHeight;
 
-            // Display mask if enabled
-            if (showMask && maskCanvasRef.current) {
-              const maskCtx = maskCanvasRef.current.getContext('2d', { willReadFrequently: true });
-              if (maskCtx) {
-                // Create a red overlay for the mask
-                const maskImageData = maskCtx.createImageData(canvasWidth, canvasHeight);
-                for (let i = 0; i < result.mask.length; i++) {
-                  const value = result.mask[i];
-                  maskImageData.data[i * 4] = 255; // Red
-                  maskImageData.data[i * 4 + 1] = 0; // Green
-                  maskImageData.data[i * 4 + 2] = 0; // Blue
-                  maskImageData.data[i * 4 + 3] = value; // Alpha (from mask)
-                }
-                maskCtx.putImageData(maskImageData, 0, 0);
-              }
-            }
-
             // Initial render with brief timeout to allow UI update
-            setTimeout(() => {
+            workerTimeoutRef.current = setTimeout(() => {
               renderCompositeImage();
               setIsProcessing(false);
-              setLoadingProgress(100);
+              setDetectionProgress(null);
+              refreshCacheStats();
             }, 50);
           }
         };
 
         foregroundImg.onerror = () => {
+          if (signal.aborted) return;
           console.error('Error loading foreground image');
           setIsProcessing(false);
           alert('Error processing image foreground. Please try again.');
@@ -227,13 +739,20 @@ export default function ImageTextOverlay() {
 
         foregroundImg.src = result.foregroundUrl;
       } catch (error) {
+        if (isAbortError(error)) return;
         console.error('Error during background removal:', error);
         setIsProcessing(false);
-        alert('Error removing background. Please try a different image.');
+        setDetectionProgress(null);
+        alert(
+          error instanceof DetectionError
+            ? error.message
+            : 'Error removing background. Please try a different image.'
+        );
       }
     };
 
     img.onerror = () => {
+      if (signal.aborted) return;
       console.error('Error loading image');
       setIsProcessing(false);
       alert('Error loading image. Please try another file.');
@@ -242,20 +761,208 @@ export default function ImageTextOverlay() {
     img.src = image;
 
     return () => {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
+      controller.abort();
       if (workerTimeoutRef.current) {
         clearTimeout(workerTimeoutRef.current);
       }
     };
-  }, [image, imageFile, showMask]);
+  }, [image, imageFile, detector]);
+
+  // Source image pixels at the detected mask's resolution, for the magic wand
+  const getMaskPixels = useCallback((): MaskPixels | null => {
+    const base = foregroundMaskRef.current;
+    const image = originalImageRef.current;
+    if (!base || !image) return null;
+    if (maskPixelsRef.current?.base === base) return maskPixelsRef.current.pixels;
+
+    const { ctx } = createScratchCanvas(base.width, base.height);
+    ctx.drawImage(image, 0, 0, base.width, base.height);
+    const pixels = ctx.getImageData(0, 0, base.width, base.height);
+    maskPixelsRef.current = { base, pixels };
+    return pixels;
+  }, []);
+
+  // The detected mask with the user's committed edits. Appending an edit only
+  // applies the new one to the previous result.
+  const getCommittedMask = useCallback((): ForegroundMask | null => {
+    const base = foregroundMaskRef.current;
+    if (!base) return null;
+
+    const cached = editedMaskRef.current;
+    if (cached && cached.base === base && cached.edits === maskEdits) {
+      return cached.mask;
+    }
+
+    const isAppend =
+      cached &&
+      cached.base === base &&
+      cached.edits.length <= maskEdits.length &&
+      cached.edits.every((edit, index) => edit === maskEdits[index]);
+    const mask = isAppend
+      ? applyMaskEdits(cached.mask, maskEdits.slice(cached.edits.length), getMaskPixels())
+      : applyMaskEdits(base, maskEdits, getMaskPixels());
+    editedMaskRef.current = { base, edits: maskEdits, mask };
+    return mask;
+  }, [maskEdits, getMaskPixels]);
+
+  // The edited mask plus any brush stroke in progress
+  const getEditedMask = useCallback((): ForegroundMask | null => {
+    const mask = getCommittedMask();
+    const stroke = strokeRef.current;
+    if (!mask || !stroke) return mask;
+
+    strokePreviewRef.current = updateStrokePreview(strokePreviewRef.current, mask, stroke);
+    return strokePreviewRef.current.mask;
+  }, [getCommittedMask]);
+
+  // Separate objects in the edited mask. Strokes in progress aren't
+  // segmented, so painting stays responsive.
+  const getMaskSegmentation = useCallback((): MaskSegmentation | null => {
+    const mask = getCommittedMask();
+    if (!mask) return null;
+    if (segmentationRef.current?.mask === mask) return segmentationRef.current.segmentation;
+
+    const segmentation = segmentMask(mask);
+    segmentationRef.current = { mask, segmentation };
+    return segmentation;
+  }, [getCommittedMask]);
+
+  // Labels of the objects the text should not go behind
+  const getNonOccludingLabels = useCallback(
+    (segmentation: MaskSegmentation) =>
+      new Set(nonOccludingObjects.map((point) => getObjectLabelAt(segmentation, point)).filter((label) => label > 0)),
+    [nonOccludingObjects]
+  );
+
+  // The edited mask without the objects the text runs over
+  const getOccludingMask = useCallback((): ForegroundMask | null => {
+    const mask = getEditedMask();
+    const segmentation = getMaskSegmentation();
+    if (!mask || !segmentation || nonOccludingObjects.length === 0) return mask;
+    return removeMaskObjects(mask, segmentation, getNonOccludingLabels(segmentation));
+  }, [getEditedMask, getMaskSegmentation, getNonOccludingLabels, nonOccludingObjects]);
+
+  // Get the mask resampled to the render size with feather/choke applied,
+  // reusing the last result when nothing changed
+  const getPreparedMask = useCallback(
+    (width: number, height: number): ForegroundMask | null => {
+      const source = getOccludingMask();
+      if (!source) return null;
+
+      const cached = preparedMaskRef.current;
+      if (
+        cached &&
+        cached.source === source &&
+        cached.mask.width === width &&
+        cached.mask.height === height &&
+        cached.refinement.feather === maskRefinement.feather &&
+        cached.refinement.choke === maskRefinement.choke
+      ) {
+        return cached.mask;
+      }
+
+      const mask = prepareMask(source, width, height, maskRefinement);
+      preparedMaskRef.current = { source, refinement: maskRefinement, mask };
+      return mask;
+    },
+    [maskRefinement, getOccludingMask]
+  );
+
+  // List the objects in the mask with thumbnails once detection and edits settle
+  useEffect(() => {
+    const segmentation = isProcessing ? null : getMaskSegmentation();
+    const source = originalImageRef.current;
+    const mask = getCommittedMask();
+    if (!segmentation || !source || !mask) {
+      setMaskObjects([]);
+      return;
+    }
+
+    setMaskObjects(
+      segmentation.objects.map((object) => ({
+        label: object.label,
+        seed: object.seed,
+        thumbnail: createObjectThumbnail(source, mask, segmentation, object, OBJECT_THUMBNAIL_SIZE),
+      }))
+    );
+  }, [isProcessing, image, getMaskSegmentation, getCommittedMask]);
+
+  const nonOccludingLabels = useMemo(() => {
+    const segmentation = maskObjects.length > 0 ? getMaskSegmentation() : null;
+    return segmentation ? getNonOccludingLabels(segmentation) : new Set<number>();
+  }, [maskObjects, getMaskSegmentation, getNonOccludingLabels]);
+
+  const setObjectOccludes = (object: MaskObjectItem, occludes: boolean) => {
+    const segmentation = getMaskSegmentation();
+    if (!segmentation) return;
+
+    setEditorDocument((prev) => ({
+      ...prev,
+      nonOccludingObjects: occludes
+        ? prev.nonOccludingObjects.filter((point) => getObjectLabelAt(segmentation, point) !== object.label)
+        : [...prev.nonOccludingObjects, object.seed],
+    }));
+  };
+
+  // Suggestions are only valid for the mask they were made from
+  useEffect(() => {
+    setPlacement(null);
+  }, [image, maskEdits, nonOccludingObjects]);
+
+  const applyPlacement = (suggestion: TextPlacement) => {
+    setSelectedLayerSettings((prev) => ({ ...prev, x: suggestion.x, y: suggestion.y, size: suggestion.size }));
+  };
+
+  // Find spots where the subject hides about the chosen share of the selected
+  // layer and apply the best one
+  const handleSuggestPlacements = () => {
+    const mask = getOccludingMask();
+    if (!selectedLayer || !mask || canvasSize.width === 0) return;
+
+    const { ctx } = createScratchCanvas(1, 1);
+    const suggestions = suggestTextPlacements(
+      mask,
+      measureTextLayer(ctx, selectedLayer),
+      selectedLayer.size,
+      canvasSize.width,
+      canvasSize.height,
+      { ...DEFAULT_PLACEMENT_OPTIONS, targetOcclusion: placementTarget / 100, depth: selectedLayer.depth }
+    );
+    setPlacement({ layerId: selectedLayer.id, suggestions, index: 0 });
+    if (suggestions.length > 0) {
+      applyPlacement(suggestions[0]);
+    }
+  };
+
+  const handleCyclePlacement = (direction: 1 | -1) => {
+    if (!placement || placement.suggestions.length === 0) return;
+    const count = placement.suggestions.length;
+    const index = (placement.index + direction + count) % count;
+    setPlacement({ ...placement, index });
+    applyPlacement(placement.suggestions[index]);
+  };
+
+  // Tint the subject red on the overlay canvas
+  const drawMaskOverlay = useCallback((mask: ForegroundMask) => {
+    const maskCtx = maskCanvasRef.current?.getContext('2d');
+    if (!maskCtx) return;
 
-  // Render the composite image with text behind foreground
+    const maskImageData = maskCtx.createImageData(mask.width, mask.height);
+    for (let i = 0; i < mask.data.length; i++) {
+      maskImageData.data[i * 4] = 255; // Red
+      maskImageData.data[i * 4 + 1] = 0; // Green
+      maskImageData.data[i * 4 + 2] = 0; // Blue
+      maskImageData.data[i * 4 + 3] = mask.data[i] * 0.5; // Semi-transparent alpha
+    }
+    maskCtx.putImageData(maskImageData, 0, 0);
+  }, []);
+
+  // Render the composite image with each layer behind, in front of or straddling the foreground
   const renderCompositeImage = useCallback(() => {
     if (
       !canvasRef.current ||
       !textCanvasRef.current ||
+      !frontTextCanvasRef.current ||
       !originalImageRef.current ||
       !foregroundImageRef.current ||
       !foregroundMaskRef.current
@@ -263,10 +970,11 @@ export default function ImageTextOverlay() {
       return;
     }
 
-    const mainCtx = canvasRef.current.getContext('2d', { willReadFrequently: true });
-    const textCtx = textCanvasRef.current.getContext('2d', { willReadFrequently: true });
+    const mainCtx = canvasRef.current.getContext('2d');
+    const textCtx = textCanvasRef.current.getContext('2d');
+    const frontCtx = frontTextCanvasRef.current.getContext('2d');
 
-    if (!mainCtx || !textCtx) return;
+    if (!mainCtx || !textCtx || !frontCtx) return;
 
     const { width, height } = canvasSize;
 
@@ -276,75 +984,41 @@ export default function ImageTextOverlay() {
       return;
     }
 
-    try {
-      // Step 1: Clear all canvases
-      mainCtx.clearRect(0, 0, width, height);
-      textCtx.clearRect(0, 0, width, height);
-
-      // Step 2: Draw the background (original image)
-      mainCtx.drawImage(originalImageRef.current, 0, 0, width, height);
-
-      // Step 3: Draw text on the text canvas
-      textCtx.font = `${textSettings.size}px ${textSettings.font}`;
-      textCtx.fillStyle = textSettings.color;
-      textCtx.textAlign = 'center';
-      textCtx.textBaseline = 'middle';
-
-      // Calculate text position based on percentages
-      const textX = (textSettings.x / 100) * width;
-      const textY = (textSettings.y / 100) * height;
-
-      // Handle multi-line text
-      const lines = textSettings.content.split('\n');
-      const lineHeight = textSettings.size * 1.2;
-
-      lines.forEach((line, index) => {
-        textCtx.fillText(
-          line,
-          textX,
-          textY + (index - lines.length / 2 + 0.5) * lineHeight
-        );
-      });
+    const mask = getPreparedMask(width, height);
+    if (!mask) return;
 
-      // Step 4: Get image data for compositing
-      const bgImageData = mainCtx.getImageData(0, 0, width, height);
-      const bgData = bgImageData.data;
-
-      const textImageData = textCtx.getImageData(0, 0, width, height);
-      const textData = textImageData.data;
-
-      // Step 5: Composite - place text behind foreground
-      // This approach keeps text only where there's no foreground
-      for (let i = 0; i < bgData.length; i += 4) {
-        const maskIndex = i / 4;
-
-        // If this pixel is part of the foreground mask, we'll draw the foreground later
-        if (foregroundMaskRef.current[maskIndex] !== 255) {
-          // This is a background pixel, check if there's text here
-          if (textData[i + 3] > 0) {
-            // Place text pixel
-            bgData[i] = textData[i];
-            bgData[i + 1] = textData[i + 1];
-            bgData[i + 2] = textData[i + 2];
-            bgData[i + 3] = textData[i + 3];
-          }
-        }
+    try {
+      const start = performance.now();
+      renderComposite(
+        { target: mainCtx, behind: textCtx, front: frontCtx },
+        { source: originalImageRef.current, mask, layers, width, height }
+      );
+      recordRenderTime(performance.now() - start);
+      if (showMask) {
+        drawMaskOverlay(mask);
       }
-
-      // Update background with text composite
-      mainCtx.putImageData(bgImageData, 0, 0);
-
-      // Step 6: Draw the foreground with transparency on top
-      mainCtx.drawImage(foregroundImageRef.current, 0, 0, width, height);
-
-      // Store processed image for download
-      setProcessedImage(canvasRef.current.toDataURL('image/png'));
+      setHasRendered(true);
     } catch (error) {
       console.error('Error during rendering:', error);
     }
-  }, [textSettings, canvasSize]);
+  }, [layers, canvasSize, getPreparedMask, showMask, drawMaskOverlay]);
+
+  // Keep a rolling average of frame times, reported at a low rate so the
+  // readout itself doesn't cause a re-render every frame
+  const recordRenderTime = (duration: number) => {
+    const stats = renderTimesRef.current;
+    stats.samples = [...stats.samples, duration].slice(-RENDER_TIME_SAMPLES);
+
+    const now = performance.now();
+    if (now - stats.lastReport < RENDER_TIME_REPORT_MS) return;
+    stats.lastReport = now;
+    setRenderTime(stats.samples.reduce((sum, sample) => sum + sample, 0) / stats.samples.length);
+  };
+
+  // However many changes arrive within a frame, only the latest state is drawn
+  const requestRender = useFrameScheduler(renderCompositeImage);
 
-  // Effect to update image when text settings change
+  // Effect to update image when text layers change
   useEffect(() => {
     if (
       !image ||
@@ -355,109 +1029,319 @@ export default function ImageTextOverlay() {
     )
       return;
 
-    // Cancel any existing animation frame
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current);
-    }
-
-    // Schedule a new render with debouncing for dragging operations
-    if (isDragging) {
-      // Less frequent updates during dragging for better performance
-      animationFrameRef.current = requestAnimationFrame(() => {
-        setTimeout(renderCompositeImage, 50);
-      });
-    } else {
-      // Immediate update when not dragging
-      animationFrameRef.current = requestAnimationFrame(renderCompositeImage);
-    }
-
-    return () => {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
-    };
+    requestRender();
   }, [
-    textSettings,
+    layers,
+    fillImagesVersion,
+    fontsVersion,
     renderCompositeImage,
+    requestRender,
     isProcessing,
     image,
-    isDragging,
     canvasSize,
     foregroundImageRef.current,
   ]);
 
-  // Effect to update the mask display when showMask changes
+  // The mask overlay is drawn by each render; clear it when hidden
   useEffect(() => {
-    if (!maskCanvasRef.current || !foregroundMaskRef.current || isProcessing) return;
+    if (showMask) return;
+    const maskCanvas = maskCanvasRef.current;
+    maskCanvas?.getContext('2d')?.clearRect(0, 0, maskCanvas.width, maskCanvas.height);
+  }, [showMask]);
+
+  // Convert a mouse event to a position in percentages of the canvas
+  const getCanvasPercent = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * 100;
+    const y = ((e.clientY - rect.top) / rect.height) * 100;
+    return {
+      x: Math.max(0, Math.min(100, x)),
+      y: Math.max(0, Math.min(100, y)),
+    };
+  };
 
-    const maskCtx = maskCanvasRef.current.getContext('2d', { willReadFrequently: true });
-    if (!maskCtx) return;
+  const isMaskToolActive = maskToolSettings.tool !== 'none' && !!image;
 
-    if (showMask) {
-      const { width, height } = canvasSize;
-      const maskImageData = maskCtx.createImageData(width, height);
+  // Start a brush stroke or apply the magic wand at the pointer
+  const startMaskEdit = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const { x, y } = getCanvasPercent(e);
+    const { tool, mode, size, hardness, tolerance } = maskToolSettings;
+    if (tool === 'wand') {
+      setMaskEdits((prev) => [...prev, { type: 'wand', mode, x: x / 100, y: y / 100, tolerance }]);
+      return;
+    }
 
-      for (let i = 0; i < foregroundMaskRef.current.length; i++) {
-        const value = foregroundMaskRef.current[i];
-        maskImageData.data[i * 4] = 255; // Red
-        maskImageData.data[i * 4 + 1] = 0; // Green
-        maskImageData.data[i * 4 + 2] = 0; // Blue
-        maskImageData.data[i * 4 + 3] = value * 0.5; // Semi-transparent alpha
-      }
+    strokeRef.current = {
+      type: 'brush',
+      mode,
+      points: [{ x: x / 100, y: y / 100 }],
+      radius: size / canvasSize.width,
+      hardness,
+    };
+    requestRender();
+  };
 
-      maskCtx.putImageData(maskImageData, 0, 0);
-    } else {
-      // Clear the mask canvas when not showing mask
-      maskCtx.clearRect(0, 0, maskCanvasRef.current.width, maskCanvasRef.current.height);
-    }
-  }, [showMask, foregroundMaskRef.current, canvasSize, isProcessing]);
+  const finishBrushStroke = () => {
+    const stroke = strokeRef.current;
+    if (!stroke) return;
+    strokeRef.current = null;
+    strokePreviewRef.current = null;
+    setMaskEdits((prev) => [...prev, stroke]);
+  };
 
-  // Handle text position dragging
+  const updateBrushCursor = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (maskToolSettings.tool !== 'brush' || !canvasContainerRef.current) return;
+    const containerRect = canvasContainerRef.current.getBoundingClientRect();
+    const canvasRect = canvasRef.current!.getBoundingClientRect();
+    setBrushCursor({
+      left: e.clientX - containerRect.left,
+      top: e.clientY - containerRect.top,
+      // The brush size is in canvas pixels; the canvas may be displayed scaled
+      radius: (maskToolSettings.size * canvasRect.width) / canvasSize.width,
+    });
+  };
+
+  // Handle text position dragging, drawing an occlusion region, or editing the mask
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
     if (!canvasRef.current || isProcessing) return;
+
+    if (isMaskToolActive) {
+      startMaskEdit(e);
+      return;
+    }
+
+    if (!selectedLayer) return;
+
+    if (isDrawingRegion) {
+      const start = getCanvasPercent(e);
+      regionStartRef.current = start;
+      updateRegion({ x: start.x, y: start.y, width: 0, height: 0 });
+      return;
+    }
+
     setIsDragging(true);
     updateTextPosition(e);
     document.body.style.cursor = 'grabbing';
   };
 
   const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isDragging || !canvasRef.current || isProcessing) return;
+    if (!canvasRef.current || isProcessing) return;
+
+    if (isMaskToolActive) {
+      updateBrushCursor(e);
+      if (strokeRef.current) {
+        const { x, y } = getCanvasPercent(e);
+        strokeRef.current.points.push({ x: x / 100, y: y / 100 });
+        requestRender();
+      }
+      return;
+    }
+
+    if (isDrawingRegion) {
+      const start = regionStartRef.current;
+      if (!start) return;
+      const current = getCanvasPercent(e);
+      updateRegion({
+        x: Math.min(start.x, current.x),
+        y: Math.min(start.y, current.y),
+        width: Math.abs(current.x - start.x),
+        height: Math.abs(current.y - start.y),
+      });
+      return;
+    }
+
+    if (!isDragging) return;
     if (dragRAF.current) cancelAnimationFrame(dragRAF.current);
     dragRAF.current = requestAnimationFrame(() => updateTextPosition(e));
   };
 
   const handleMouseUp = () => {
+    if (strokeRef.current) {
+      finishBrushStroke();
+      return;
+    }
+
+    if (isDrawingRegion) {
+      if (regionStartRef.current) {
+        regionStartRef.current = null;
+        setIsDrawingRegion(false);
+      }
+      return;
+    }
+
     setIsDragging(false);
     document.body.style.cursor = '';
     if (dragRAF.current) cancelAnimationFrame(dragRAF.current);
   };
 
+  const handleMouseLeave = () => {
+    setBrushCursor(null);
+    handleMouseUp();
+  };
+
+  const updateRegion = (region: OcclusionRegion) => {
+    setSelectedLayerSettings((prev) => ({
+      ...prev,
+      split: { ...prev.split, type: 'region', region },
+    }));
+  };
+
   const updateTextPosition = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
     if (!canvasContainerRef.current || !canvasRef.current) return;
 
-    const rect = canvasRef.current.getBoundingClientRect();
-    const x = ((e.clientX - rect.left) / rect.width) * 100;
-    const y = ((e.clientY - rect.top) / rect.height) * 100;
-
     // Update text position with bounds checking
-    const boundedX = Math.max(0, Math.min(100, x));
-    const boundedY = Math.max(0, Math.min(100, y));
+    const { x, y } = getCanvasPercent(e);
 
-    setTextSettings((prev) => ({
+    setSelectedLayerSettings((prev) => ({
       ...prev,
-      x: boundedX,
-      y: boundedY,
+      x,
+      y,
     }));
+  }, [setSelectedLayerSettings]);
+
+  // Everything the offscreen export renderer needs, or null before an image is ready
+  const getExportSource = useCallback((): ExportSource | null => {
+    if (!originalImageRef.current || !foregroundMaskRef.current) return null;
+    return {
+      image: originalImageRef.current,
+      mask: getOccludingMask() ?? foregroundMaskRef.current,
+      layers,
+      maskRefinement,
+      previewWidth: canvasSize.width,
+      previewHeight: canvasSize.height,
+    };
+  }, [layers, maskRefinement, canvasSize, getOccludingMask]);
+
+  const estimateSize = useCallback(
+    async (options: ExportOptions) => {
+      const source = getExportSource();
+      if (!source) return 0;
+      await waitForLayerFonts(source.layers);
+      const { width, height } = getExportSize(source.image.naturalWidth, source.image.naturalHeight, options.scale);
+      return estimateExportSize(source, options, width, height);
+    },
+    [getExportSource]
+  );
+
+  // Render the final image offscreen at the export resolution and download it
+  const handleDownload = async () => {
+    const source = getExportSource();
+    if (!source || isExporting) return;
+
+    setIsExporting(true);
+    try {
+      await waitForLayerFonts(source.layers);
+      const { blob, filename } = await exportComposition(source, exportOptions, imageFile?.name ?? '');
+      downloadBlob(blob, filename);
+      setIsExportDialogOpen(false);
+    } catch (error) {
+      console.error('Error during export:', error);
+      alert('Error exporting image. Try a smaller export size.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Replace the detected mask with one made elsewhere
+  const handleMaskImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow importing the same file again after editing it
+    e.target.value = '';
+    if (!file || !imageFile) return;
+
+    setIsProcessing(true);
+    try {
+      const result = await createMaskFileDetector(file).detect(imageFile);
+      if (foregroundUrlRef.current) {
+        URL.revokeObjectURL(foregroundUrlRef.current);
+      }
+      foregroundMaskRef.current = result.mask;
+      foregroundUrlRef.current = result.foregroundUrl;
+      // Edits and object settings were made on the previous mask
+      resetHistory((prev) => ({ ...prev, maskEdits: [], nonOccludingObjects: [] }));
+    } catch (error) {
+      console.error('Error importing mask:', error);
+      alert(error instanceof DetectionError ? error.message : 'Error importing mask. Please try another file.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Download the edited mask or the cutout it produces, at the source resolution
+  const handleAssetDownload = async (asset: 'mask' | 'cutout') => {
+    const source = originalImageRef.current;
+    const mask = getEditedMask();
+    if (!imageFile || !source || !mask) return;
+
+    try {
+      const canvas =
+        asset === 'mask'
+          ? renderMaskCanvas(mask, source.naturalWidth, source.naturalHeight)
+          : renderCutoutCanvas(source, mask);
+      const blob = await canvasToBlob(canvas, 'image/png');
+      const baseName = imageFile.name.replace(/\.[^.]+$/, '') || 'image';
+      downloadBlob(blob, `${baseName}-${asset}.png`);
+    } catch (error) {
+      console.error(`Error exporting ${asset}:`, error);
+      alert(`Error exporting the ${asset}. Please try again.`);
+    }
+  };
+
+  // Bundle the current session into a project file and download it
+  const handleSaveProject = async () => {
+    const source = originalImageRef.current;
+    const mask = getEditedMask();
+    if (!imageFile || !source || !mask) return;
+
+    try {
+      // The cutout is rendered from the edited mask so the two match when loaded
+      const cutout = await canvasToBlob(renderCutoutCanvas(source, mask), 'image/png');
+      const blob = await saveProject({
+        source: imageFile,
+        mask,
+        cutout,
+        layers,
+        maskRefinement,
+        nonOccludingObjects,
+        fonts: getUsedFonts(layers, customFonts),
+      });
+      const baseName = imageFile.name.replace(/\.[^.]+$/, '') || 'project';
+      downloadBlob(blob, `${baseName}${PROJECT_EXTENSION}`);
+    } catch (error) {
+      console.error('Error saving project:', error);
+      alert('Error saving project. Please try again.');
+    }
+  };
+
+  // Saved settings are only read after mounting so the first render matches
+  // the server's. This must run before the save below, which would otherwise
+  // overwrite them with the defaults.
+  useEffect(() => {
+    setDetectorSettings(loadDetectorSettings());
+  }, []);
+
+  useEffect(() => {
+    saveDetectorSettings(detectorSettings);
+  }, [detectorSettings]);
+
+  const refreshCacheStats = useCallback(() => {
+    getSegmentationCacheStats()
+      .then(setCacheStats)
+      .catch((error) => console.error('Error reading segmentation cache:', error));
   }, []);
 
-  // Handle download of final image
-  const handleDownload = () => {
-    if (!processedImage) return;
+  useEffect(() => {
+    refreshCacheStats();
+  }, [refreshCacheStats]);
 
-    const link = document.createElement('a');
-    link.href = processedImage;
-    link.download = 'overlay-image.png';
-    link.click();
+  const handleClearCache = async () => {
+    try {
+      await clearSegmentationCache();
+    } catch (error) {
+      console.error('Error clearing segmentation cache:', error);
+      alert('Error clearing the cache. Please try again.');
+    }
+    refreshCacheStats();
   };
 
   // Clean up object URLs when component unmounts
@@ -472,6 +1356,27 @@ export default function ImageTextOverlay() {
   return (
     <div className="flex flex-col md:flex-row gap-8 w-full max-w-7xl mx-auto">
       <div className="flex-1">
+        {usesBundledModel && (offlineStatus === 'missing' || (!isOnline && offlineStatus !== 'ready')) && (
+          <div className="mb-3 p-3 rounded-md bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+            {offlineStatus === 'missing'
+              ? 'The background removal model is not included in this build. Run "npm run fetch-models" or set a model asset URL in Advanced Options.'
+              : "You're offline and the model hasn't been saved on this device yet, so background removal is unavailable until you reconnect."}
+          </div>
+        )}
+        {batchItemId !== null && (
+          <div className="mb-3 p-3 rounded-md bg-blue-50 border border-blue-200 text-sm text-blue-800 flex items-center justify-between gap-2">
+            <span>
+              Editing the design of {batch.items.find((item) => item.id === batchItemId)?.file.name ?? 'this image'}{' '}
+              only.
+            </span>
+            <button
+              onClick={handleFinishCustomizing}
+              className="py-1 px-2 text-xs rounded border border-blue-300 bg-white hover:bg-blue-100"
+            >
+              Back to shared design
+            </button>
+          </div>
+        )}
         <div
           ref={canvasContainerRef}
           className={`relative border-2 border-dashed border-gray-300 rounded-lg overflow-hidden bg-gray-50 h-[400px] flex items-center justify-center transition-all duration-200 ${
@@ -489,36 +1394,70 @@ export default function ImageTextOverlay() {
             </div>
           )}
 
+          {isProcessing && detectionProgress && (
+            <div className="absolute inset-x-0 bottom-0 z-30 p-3 bg-white/90 pointer-events-none">
+              <div className="flex justify-between text-xs text-gray-600 mb-1">
+                <span>{DETECTION_STAGE_LABELS[detectionProgress.stage]}</span>
+                <span>{Math.round(detectionProgress.progress * 100)}%</span>
+              </div>
+              <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-500 transition-all"
+                  style={{ width: `${Math.round(detectionProgress.progress * 100)}%` }}
+                />
+              </div>
+            </div>
+          )}
+
           {image ? (
             <>
               {/* Hidden canvases for processing */}
               <canvas ref={textCanvasRef} className="hidden" />
+              <canvas ref={frontTextCanvasRef} className="hidden" />
 
               {/* Mask overlay canvas */}
               <canvas
                 ref={maskCanvasRef}
-                className={`absolute top-0 left-0 z-10 ${showMask ? '' : 'hidden'}`}
+                className={`absolute top-0 left-0 z-10 pointer-events-none ${showMask ? '' : 'hidden'}`}
               />
 
               {/* Main visible canvas */}
               <canvas
                 ref={canvasRef}
                 className={`max-w-full max-h-full object-contain relative z-0 ${
-                  isDragging ? 'cursor-grabbing' : 'cursor-move'
+                  isDrawingRegion || isMaskToolActive
+                    ? 'cursor-crosshair'
+                    : isDragging
+                      ? 'cursor-grabbing'
+                      : 'cursor-move'
                 }`}
                 onMouseDown={handleMouseDown}
                 onMouseMove={handleMouseMove}
                 onMouseUp={handleMouseUp}
-                onMouseLeave={handleMouseUp}
+                onMouseLeave={handleMouseLeave}
               />
 
+              {/* Brush outline */}
+              {isMaskToolActive && brushCursor && (
+                <div
+                  className="absolute pointer-events-none z-20 rounded-full border border-white"
+                  style={{
+                    left: brushCursor.left - brushCursor.radius,
+                    top: brushCursor.top - brushCursor.radius,
+                    width: brushCursor.radius * 2,
+                    height: brushCursor.radius * 2,
+                    boxShadow: '0 0 0 1px rgba(0,0,0,0.4)',
+                  }}
+                />
+              )}
+
               {/* Overlay to show where text is during dragging */}
-              {isDragging && (
+              {isDragging && selectedLayer && (
                 <div
                   className="absolute pointer-events-none z-20"
                   style={{
-                    left: `${textSettings.x}%`,
-                    top: `${textSettings.y}%`,
+                    left: `${selectedLayer.x}%`,
+                    top: `${selectedLayer.y}%`,
                     transform: 'translate(-50%, -50%)',
                     width: '20px',
                     height: '20px',
@@ -529,13 +1468,30 @@ export default function ImageTextOverlay() {
                   }}
                 />
               )}
+
+              {/* Outline of the selected layer's occlusion region */}
+              {selectedLayer?.depth === 'split' &&
+                selectedLayer.split.type === 'region' &&
+                selectedLayer.split.region && (
+                  <div
+                    className="absolute pointer-events-none z-20 border-2 border-dashed border-blue-400"
+                    style={{
+                      left: `${selectedLayer.split.region.x}%`,
+                      top: `${selectedLayer.split.region.y}%`,
+                      width: `${selectedLayer.split.region.width}%`,
+                      height: `${selectedLayer.split.region.height}%`,
+                    }}
+                  />
+                )}
             </>
           ) : (
             <div className="absolute inset-0 flex flex-col items-center justify-center z-10 pointer-events-none">
               <span className="text-lg font-semibold text-gray-400">
                 Drag & drop an image here
               </span>
-              <span className="text-xs text-gray-400 mt-2">or click to select</span>
+              <span className="text-xs text-gray-400 mt-2">
+                or click to select — saved {PROJECT_EXTENSION} projects open here too
+              </span>
             </div>
           )}
 
@@ -543,7 +1499,8 @@ export default function ImageTextOverlay() {
           {!image && !isProcessing && (
             <input
               type="file"
-              accept="image/*"
+              accept={`image/*,${PROJECT_EXTENSION}`}
+              multiple
               onChange={handleImageUpload}
               className="absolute inset-0 opacity-0 cursor-pointer z-20"
               tabIndex={0}
@@ -555,33 +1512,131 @@ export default function ImageTextOverlay() {
         <div className="mt-4 flex justify-between items-center">
           {image && (
             <div className="text-sm text-gray-500">
-              {isDragging ? (
+              {isDrawingRegion ? (
+                <span className="text-blue-500 font-medium">
+                  Drag on canvas to draw the region where text goes behind the subject
+                </span>
+              ) : isDragging ? (
                 <span className="text-blue-500 font-medium">Positioning text...</span>
               ) : (
-                <span>Drag on canvas to position text or use sliders</span>
+                <span>Drag on canvas to position the selected layer or use sliders</span>
               )}
             </div>
           )}
 
-          {processedImage && (
-            <button
-              onClick={handleDownload}
-              className="py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-md transition-colors"
-              disabled={isProcessing}
-            >
-              Download Image
-            </button>
+          {hasRendered && (
+            <div className="flex items-center gap-2">
+              <button
+                onClick={undo}
+                className="py-2 px-3 border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 rounded-md transition-colors disabled:opacity-50"
+                disabled={isProcessing || !canUndo}
+                title="Undo (Ctrl+Z)"
+                aria-label="Undo"
+              >
+                ↶
+              </button>
+              <button
+                onClick={redo}
+                className="py-2 px-3 border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 rounded-md transition-colors disabled:opacity-50"
+                disabled={isProcessing || !canRedo}
+                title="Redo (Ctrl+Shift+Z)"
+                aria-label="Redo"
+              >
+                ↷
+              </button>
+              <button
+                onClick={handleSaveProject}
+                className="py-2 px-4 border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 font-medium rounded-md transition-colors"
+                disabled={isProcessing}
+              >
+                Save Project
+              </button>
+              <button
+                onClick={() => setIsExportDialogOpen(true)}
+                className="py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-md transition-colors"
+                disabled={isProcessing}
+              >
+                Download Image
+              </button>
+            </div>
           )}
         </div>
+
+        {originalImageRef.current && (
+          <ExportDialog
+            isOpen={isExportDialogOpen}
+            onClose={() => setIsExportDialogOpen(false)}
+            options={exportOptions}
+            setOptions={setExportOptions}
+            sourceName={imageFile?.name ?? ''}
+            imageWidth={originalImageRef.current.naturalWidth}
+            imageHeight={originalImageRef.current.naturalHeight}
+            estimateSize={estimateSize}
+            onExport={handleDownload}
+            isExporting={isExporting}
+          />
+        )}
       </div>
 
       <div className="flex-1">
-        <TextEditor
-          textSettings={textSettings}
-          setTextSettings={setTextSettings}
+        {batch.items.length > 0 && (
+          <BatchPanel
+            items={batch.items}
+            activeItemId={batchItemId}
+            onCustomize={handleCustomizeBatchItem}
+            onUseSharedDesign={handleUseSharedDesign}
+            onRemove={batch.removeItem}
+            onRetry={batch.retryItem}
+            onClear={handleClearBatch}
+            onAddFiles={batch.addFiles}
+            onExport={handleBatchExport}
+            exportProgress={batchExportProgress}
+            disabled={isProcessing}
+          />
+        )}
+
+        <LayerPanel
+          layers={layers}
+          selectedLayerId={selectedLayerId}
+          onSelect={setSelectedLayerId}
+          onAdd={handleAddLayer}
+          onDuplicate={handleDuplicateLayer}
+          onDelete={handleDeleteLayer}
+          onMove={handleMoveLayer}
           disabled={isProcessing}
         />
 
+        {selectedLayer ? (
+          <TextEditor
+            key={selectedLayer.id}
+            textSettings={selectedLayer}
+            setTextSettings={setSelectedLayerSettings}
+            onDrawRegion={() => setIsDrawingRegion((prev) => !prev)}
+            isDrawingRegion={isDrawingRegion}
+            customFonts={customFonts}
+            onAddFonts={addFontFiles}
+            onRemoveFont={removeFont}
+            disabled={isProcessing}
+          />
+        ) : (
+          <div className="card">
+            <p className="text-sm text-gray-500">Add a text layer to start editing.</p>
+          </div>
+        )}
+
+        {selectedLayer && (
+          <TextPlacementPanel
+            targetOcclusion={placementTarget}
+            setTargetOcclusion={setPlacementTarget}
+            canOcclude={selectedLayer.depth !== 'front'}
+            suggestions={placement?.layerId === selectedLayer.id ? placement.suggestions : null}
+            index={placement?.index ?? 0}
+            onSuggest={handleSuggestPlacements}
+            onCycle={handleCyclePlacement}
+            disabled={isProcessing || !image}
+          />
+        )}
+
         <div className="mt-4 p-4 bg-gray-100 rounded-md">
           <div className="flex items-center mb-2">
             <h3 className="text-sm font-medium">Advanced Options</h3>
@@ -598,6 +1653,123 @@ export default function ImageTextOverlay() {
             <span className="text-sm">Show Foreground Mask</span>
           </label>
 
+          <div className="grid grid-cols-2 gap-4 mt-3">
+            <div>
+              <label htmlFor="mask-feather" className="block text-xs text-gray-600 mb-1">
+                Edge Feather: {maskRefinement.feather}px
+              </label>
+              <input
+                id="mask-feather"
+                type="range"
+                min="0"
+                max="20"
+                value={maskRefinement.feather}
+                onChange={(e) =>
+                  setMaskRefinement((prev) => ({ ...prev, feather: Number(e.target.value) }))
+                }
+                disabled={isProcessing || !image}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+              />
+            </div>
+            <div>
+              <label htmlFor="mask-choke" className="block text-xs text-gray-600 mb-1">
+                Edge Choke: {maskRefinement.choke}px
+              </label>
+              <input
+                id="mask-choke"
+                type="range"
+                min="-10"
+                max="10"
+                value={maskRefinement.choke}
+                onChange={(e) =>
+                  setMaskRefinement((prev) => ({ ...prev, choke: Number(e.target.value) }))
+                }
+                disabled={isProcessing || !image}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+              />
+            </div>
+          </div>
+
+          <MaskObjectsPanel
+            objects={maskObjects}
+            nonOccludingLabels={nonOccludingLabels}
+            onChange={setObjectOccludes}
+            disabled={isProcessing || !image}
+          />
+
+          <div className="mt-3">
+            <span className="block text-xs text-gray-600 mb-1">Mask Files</span>
+            <div className="flex gap-1">
+              <label
+                className={`flex-1 py-1 px-2 text-xs text-center rounded-md border border-gray-300 bg-white text-gray-700 ${
+                  isProcessing || !image ? 'opacity-50 cursor-not-allowed' : 'hover:bg-gray-50 cursor-pointer'
+                }`}
+              >
+                Import mask…
+                <input
+                  type="file"
+                  accept="image/png,image/jpeg,image/webp"
+                  onChange={handleMaskImport}
+                  disabled={isProcessing || !image}
+                  className="hidden"
+                />
+              </label>
+              <button
+                onClick={() => handleAssetDownload('mask')}
+                className="flex-1 py-1 px-2 text-xs rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                disabled={isProcessing || !image}
+              >
+                Download mask
+              </button>
+              <button
+                onClick={() => handleAssetDownload('cutout')}
+                className="flex-1 py-1 px-2 text-xs rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                disabled={isProcessing || !image}
+              >
+                Download cutout
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Masks are grayscale (white = subject) or use transparency, with the same proportions as the image.
+            </p>
+          </div>
+
+          <MaskToolsPanel
+            settings={maskToolSettings}
+            setSettings={setMaskToolSettings}
+            editCount={maskEdits.length}
+            onClearEdits={() => setMaskEdits([])}
+            disabled={isProcessing || !image}
+          />
+
+          {!detectorOverride && (
+            <DetectorPanel
+              settings={detectorSettings}
+              setSettings={setDetectorSettings}
+              offlineStatus={offlineStatus}
+              isOnline={isOnline}
+              onMakeAvailableOffline={makeAvailableOffline}
+              disabled={isProcessing}
+            />
+          )}
+
+          <div className="flex items-center justify-between mt-3">
+            <span className="text-xs text-gray-500">
+              Cached results: {cacheStats ? `${cacheStats.entries} (${formatFileSize(cacheStats.bytes)})` : '—'}
+            </span>
+            <button
+              onClick={handleClearCache}
+              className="py-1 px-2 text-xs border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 rounded-md transition-colors disabled:opacity-50"
+              disabled={!cacheStats || cacheStats.entries === 0}
+            >
+              Clear cache
+            </button>
+          </div>
+
+          {renderTime !== null && (
+            <p className="text-xs text-gray-500 mt-2">Render time: {renderTime.toFixed(1)} ms per frame</p>
+          )}
+
           <p className="text-xs text-gray-500 mt-2">
             Powered by IMG.LY Background Removal - processing happens in your browser
           </p>
@@ -605,4 +1777,5 @@ export default function ImageTextOverlay() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
@@ -0,0 +1,105 @@
+'use client';
+
+import React from 'react';
+import { TextLayer } from '../core/textLayers';
+
+interface LayerPanelProps {
+  layers: TextLayer[];
+  selectedLayerId: string | null;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onMove: (id: string, direction: 'up' | 'down') => void;
+  disabled?: boolean;
+}
+
+export default function LayerPanel({
+  layers,
+  selectedLayerId,
+  onSelect,
+  onAdd,
+  onDuplicate,
+  onDelete,
+  onMove,
+  disabled = false,
+}: LayerPanelProps) {
+  // Show the top of the stack first, like most editors do
+  const orderedLayers = [...layers].reverse();
+  const buttonClass = `text-xs px-2 py-1 rounded border border-gray-300 bg-white hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed`;
+
+  return (
+    <div className={`card mb-4 ${disabled ? 'opacity-75' : ''}`}>
+      <div className="flex justify-between items-center mb-3">
+        <h2 className="text-xl font-semibold text-foreground">Layers</h2>
+        <button onClick={onAdd} className={buttonClass} disabled={disabled}>
+          + Add Text
+        </button>
+      </div>
+
+      {layers.length === 0 ? (
+        <p className="text-sm text-gray-500">No text layers yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {orderedLayers.map((layer, index) => {
+            const isSelected = layer.id === selectedLayerId;
+            const isTop = index === 0;
+            const isBottom = index === orderedLayers.length - 1;
+
+            return (
+              <li
+                key={layer.id}
+                className={`flex items-center gap-2 p-2 rounded-md border cursor-pointer ${
+                  isSelected ? 'border-blue-500 bg-blue-50' : 'border-gray-200 bg-white hover:bg-gray-50'
+                }`}
+                onClick={() => !disabled && onSelect(layer.id)}
+              >
+                <span
+                  className="w-3 h-3 rounded-full border border-gray-300 flex-shrink-0"
+                  style={{ backgroundColor: layer.color }}
+                />
+                <span className="flex-1 text-sm text-gray-700 truncate" title={layer.content}>
+                  {layer.content.split('\n')[0] || layer.name}
+                </span>
+                <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                  <button
+                    onClick={() => onMove(layer.id, 'up')}
+                    className={buttonClass}
+                    disabled={disabled || isTop}
+                    aria-label="Move layer up"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => onMove(layer.id, 'down')}
+                    className={buttonClass}
+                    disabled={disabled || isBottom}
+                    aria-label="Move layer down"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    onClick={() => onDuplicate(layer.id)}
+                    className={buttonClass}
+                    disabled={disabled}
+                    aria-label="Duplicate layer"
+                  >
+                    Copy
+                  </button>
+                  <button
+                    onClick={() => onDelete(layer.id)}
+                    className={`${buttonClass} text-red-600`}
+                    disabled={disabled}
+                    aria-label="Delete layer"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import React from 'react';
+import { MaskPoint } from '../utils/maskObjects';
+
+export interface MaskObjectItem {
+  label: number;
+  seed: MaskPoint;
+  // Data URL of the object cut out of the image
+  thumbnail: string;
+}
+
+interface MaskObjectsPanelProps {
+  objects: MaskObjectItem[];
+  nonOccludingLabels: Set<number>;
+  onChange: (object: MaskObjectItem, occludes: boolean) => void;
+  disabled?: boolean;
+}
+
+export default function MaskObjectsPanel({
+  objects,
+  nonOccludingLabels,
+  onChange,
+  disabled = false,
+}: MaskObjectsPanelProps) {
+  if (objects.length === 0) return null;
+
+  return (
+    <div className="mt-3">
+      <span className="block text-xs text-gray-600 mb-1">Objects ({objects.length})</span>
+      <ul className="space-y-1 max-h-48 overflow-y-auto">
+        {objects.map((object, index) => {
+          const occludes = !nonOccludingLabels.has(object.label);
+          return (
+            <li key={object.label} className="flex items-center gap-2 p-1 rounded-md border border-gray-200">
+              <img
+                src={object.thumbnail}
+                alt={`Object ${index + 1}`}
+                className={`w-12 h-12 object-contain rounded bg-gray-100 ${occludes ? '' : 'opacity-40'}`}
+              />
+              <span className="flex-1 text-xs text-gray-700">Object {index + 1}</span>
+              <label className="flex items-center gap-1 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={occludes}
+                  onChange={(e) => onChange(object, e.target.checked)}
+                  disabled={disabled}
+                  className="rounded text-blue-600 focus:ring-blue-500"
+                />
+                Occludes text
+              </label>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
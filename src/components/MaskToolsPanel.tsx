@@ -0,0 +1,144 @@
+'use client';
+
+import React from 'react';
+import { MaskEditMode, MaskTool, MaskToolSettings } from '../utils/maskEditing';
+
+interface MaskToolsPanelProps {
+  settings: MaskToolSettings;
+  setSettings: React.Dispatch<React.SetStateAction<MaskToolSettings>>;
+  editCount: number;
+  onClearEdits: () => void;
+  disabled?: boolean;
+}
+
+const TOOL_OPTIONS: { value: MaskTool; label: string }[] = [
+  { value: 'none', label: 'Off' },
+  { value: 'brush', label: 'Brush' },
+  { value: 'wand', label: 'Magic Wand' },
+];
+
+const MODE_OPTIONS: { value: MaskEditMode; label: string }[] = [
+  { value: 'add', label: 'Add to subject' },
+  { value: 'erase', label: 'Remove from subject' },
+];
+
+export default function MaskToolsPanel({
+  settings,
+  setSettings,
+  editCount,
+  onClearEdits,
+  disabled = false,
+}: MaskToolsPanelProps) {
+  const update = (changes: Partial<MaskToolSettings>) => {
+    setSettings((prev) => ({ ...prev, ...changes }));
+  };
+
+  const buttonClass = (active: boolean) =>
+    `flex-1 py-1 px-2 text-xs rounded-md border transition-colors disabled:opacity-50 ${
+      active ? 'bg-blue-500 border-blue-500 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+    }`;
+  const sliderClass = `w-full h-2 bg-gray-200 rounded-lg appearance-none ${
+    disabled ? 'cursor-not-allowed opacity-70' : 'cursor-pointer'
+  }`;
+
+  return (
+    <div className="mt-3">
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-xs text-gray-600">Mask Tools</span>
+        <button
+          onClick={onClearEdits}
+          className="py-0.5 px-2 text-xs text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+          disabled={disabled || editCount === 0}
+        >
+          Reset edits{editCount > 0 ? ` (${editCount})` : ''}
+        </button>
+      </div>
+
+      <div className="flex gap-1">
+        {TOOL_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => update({ tool: option.value })}
+            className={buttonClass(settings.tool === option.value)}
+            disabled={disabled}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {settings.tool !== 'none' && (
+        <div className="mt-2 space-y-2">
+          <div className="flex gap-1">
+            {MODE_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => update({ mode: option.value })}
+                className={buttonClass(settings.mode === option.value)}
+                disabled={disabled}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {settings.tool === 'brush' ? (
+            <>
+              <div>
+                <label htmlFor="brush-size" className="block text-xs text-gray-600 mb-1">
+                  Size: {settings.size}px
+                </label>
+                <input
+                  id="brush-size"
+                  type="range"
+                  min="1"
+                  max="150"
+                  value={settings.size}
+                  onChange={(e) => update({ size: Number(e.target.value) })}
+                  disabled={disabled}
+                  className={sliderClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="brush-hardness" className="block text-xs text-gray-600 mb-1">
+                  Hardness: {Math.round(settings.hardness * 100)}%
+                </label>
+                <input
+                  id="brush-hardness"
+                  type="range"
+                  min="0"
+                  max="100"
+                  value={Math.round(settings.hardness * 100)}
+                  onChange={(e) => update({ hardness: Number(e.target.value) / 100 })}
+                  disabled={disabled}
+                  className={sliderClass}
+                />
+              </div>
+            </>
+          ) : (
+            <div>
+              <label htmlFor="wand-tolerance" className="block text-xs text-gray-600 mb-1">
+                Tolerance: {settings.tolerance}
+              </label>
+              <input
+                id="wand-tolerance"
+                type="range"
+                min="0"
+                max="150"
+                value={settings.tolerance}
+                onChange={(e) => update({ tolerance: Number(e.target.value) })}
+                disabled={disabled}
+                className={sliderClass}
+              />
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500">
+            {settings.tool === 'brush' ? 'Paint on the image' : 'Click a region of similar color'} to edit the
+            mask. Turn on Show Foreground Mask to see the result.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
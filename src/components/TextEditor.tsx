@@ -2,22 +2,51 @@
 
 import React, { useState, useRef } from 'react';
 import { debounce } from 'lodash';
-
-interface TextSettings {
-  content: string;
-  font: string;
-  size: number;
-  color: string;
-  x: number;
-  y: number;
-}
+import { getFillBackground } from '../core/textFills';
+import { FONT_FILE_EXTENSIONS, StoredFont } from '../utils/fontLibrary';
+import {
+  FillSettings,
+  FillType,
+  GlowSettings,
+  LayerDepth,
+  ShadowSettings,
+  SplitSettings,
+  TextAlign,
+  TextSettings,
+} from '../core/textLayers';
 
 interface TextEditorProps {
   textSettings: TextSettings;
   setTextSettings: React.Dispatch<React.SetStateAction<TextSettings>>;
+  onDrawRegion?: () => void;
+  isDrawingRegion?: boolean;
+  customFonts?: StoredFont[];
+  onAddFonts?: (files: File[]) => Promise<string[]>;
+  onRemoveFont?: (id: string) => void;
   disabled?: boolean;
 }
 
+const WEIGHT_OPTIONS = [100, 200, 300, 400, 500, 600, 700, 800, 900];
+
+const ALIGN_OPTIONS: { value: TextAlign; label: string }[] = [
+  { value: 'left', label: 'Left' },
+  { value: 'center', label: 'Center' },
+  { value: 'right', label: 'Right' },
+];
+
+const FILL_OPTIONS: { value: FillType; label: string }[] = [
+  { value: 'solid', label: 'Solid' },
+  { value: 'linear', label: 'Linear' },
+  { value: 'radial', label: 'Radial' },
+  { value: 'image', label: 'Image' },
+];
+
+const DEPTH_OPTIONS: { value: LayerDepth; label: string }[] = [
+  { value: 'behind', label: 'Behind subject' },
+  { value: 'front', label: 'In front of subject' },
+  { value: 'split', label: 'Split' },
+];
+
 const FONT_OPTIONS = [
   'Arial',
   'Verdana',
@@ -38,14 +67,62 @@ const FONT_OPTIONS = [
   'system-ui',
   'cursive',
   'fantasy',
-  'monospace',
   'ui-monospace',
   'ui-rounded',
   'ui-sans-serif',
   'ui-serif',
 ];
 
-export default function TextEditor({ textSettings, setTextSettings, disabled = false }: TextEditorProps) {
+// CSS approximation of the canvas rendering, scaled down to fit the preview box
+function getPreviewStyle(settings: TextSettings): React.CSSProperties {
+  const scale = Math.min(settings.size, 48) / settings.size;
+  const background = getFillBackground(settings.fill);
+  const shadows: string[] = [];
+  if (settings.glow.enabled) {
+    shadows.push(`0 0 ${settings.glow.blur * scale}px ${settings.glow.color}`);
+  }
+  if (settings.shadow.enabled) {
+    const { offsetX, offsetY, blur, color } = settings.shadow;
+    shadows.push(`${offsetX * scale}px ${offsetY * scale}px ${blur * scale}px ${color}`);
+  }
+
+  return {
+    fontFamily: settings.font,
+    fontSize: `${settings.size * scale}px`,
+    fontWeight: settings.fontWeight,
+    fontStyle: settings.italic ? 'italic' : 'normal',
+    color: settings.color,
+    letterSpacing: `${settings.letterSpacing * scale}px`,
+    lineHeight: settings.lineHeight,
+    textAlign: settings.align,
+    whiteSpace: 'pre-wrap',
+    opacity: settings.opacity,
+    transform: `rotate(${settings.rotation}deg)`,
+    WebkitTextStroke:
+      settings.stroke.width > 0 ? `${settings.stroke.width * scale}px ${settings.stroke.color}` : undefined,
+    paintOrder: 'stroke fill',
+    textShadow: shadows.length > 0 ? shadows.join(', ') : undefined,
+    ...(background && {
+      color: 'transparent',
+      backgroundImage: background,
+      backgroundSize: settings.fill.type === 'image' ? `${settings.fill.imageScale * 100}% auto` : undefined,
+      backgroundPosition: 'center',
+      WebkitBackgroundClip: 'text',
+      backgroundClip: 'text',
+    }),
+  };
+}
+
+export default function TextEditor({
+  textSettings,
+  setTextSettings,
+  onDrawRegion,
+  isDrawingRegion = false,
+  customFonts = [],
+  onAddFonts,
+  onRemoveFont,
+  disabled = false,
+}: TextEditorProps) {
   // Handle text content change
   const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     if (disabled) return;
@@ -64,6 +141,18 @@ export default function TextEditor({ textSettings, setTextSettings, disabled = f
     }));
   };
 
+  // Upload font files and switch the layer to the first one added
+  const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (!onAddFonts || files.length === 0 || disabled) return;
+
+    const families = await onAddFonts(files);
+    if (families.length > 0) {
+      updateSettings({ font: families[0] });
+    }
+  };
+
   // Handle size change
   const handleSizeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (disabled) return;
@@ -82,6 +171,87 @@ export default function TextEditor({ textSettings, setTextSettings, disabled = f
     }));
   };
 
+  // Handle any other style change
+  const updateSettings = (changes: Partial<TextSettings>) => {
+    if (disabled) return;
+    setTextSettings(prev => ({
+      ...prev,
+      ...changes
+    }));
+  };
+
+  const updateShadow = (changes: Partial<ShadowSettings>) => {
+    if (disabled) return;
+    setTextSettings(prev => ({
+      ...prev,
+      shadow: { ...prev.shadow, ...changes }
+    }));
+  };
+
+  const updateGlow = (changes: Partial<GlowSettings>) => {
+    if (disabled) return;
+    setTextSettings(prev => ({
+      ...prev,
+      glow: { ...prev.glow, ...changes }
+    }));
+  };
+
+  const updateFill = (changes: Partial<FillSettings>) => {
+    if (disabled) return;
+    setTextSettings(prev => ({
+      ...prev,
+      fill: { ...prev.fill, ...changes }
+    }));
+  };
+
+  const updateStop = (index: number, changes: Partial<FillSettings['stops'][number]>) => {
+    updateFill({
+      stops: textSettings.fill.stops.map((stop, i) => (i === index ? { ...stop, ...changes } : stop))
+    });
+  };
+
+  const addStop = () => {
+    updateFill({ stops: [...textSettings.fill.stops, { offset: 0.5, color: textSettings.color }] });
+  };
+
+  const removeStop = (index: number) => {
+    if (textSettings.fill.stops.length <= 2) return;
+    updateFill({ stops: textSettings.fill.stops.filter((_, i) => i !== index) });
+  };
+
+  // Read the texture as a data URL so it travels with the layer (history, projects)
+  const handleFillImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || disabled) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      if (typeof event.target?.result === 'string') {
+        updateFill({ type: 'image', image: event.target.result });
+      }
+    };
+    reader.onerror = () => alert('Error reading fill image. Please try another file.');
+    reader.readAsDataURL(file);
+  };
+
+  // Handle depth mode change
+  const handleDepthChange = (depth: LayerDepth) => {
+    if (disabled) return;
+    setTextSettings(prev => ({
+      ...prev,
+      depth
+    }));
+  };
+
+  // Handle split settings change
+  const handleSplitChange = (changes: Partial<SplitSettings>) => {
+    if (disabled) return;
+    setTextSettings(prev => ({
+      ...prev,
+      split: { ...prev.split, ...changes }
+    }));
+  };
+
   // Debounce position update
   const debouncedSetPosition = useRef(
     debounce((axis: 'x' | 'y', value: number) => {
@@ -131,12 +301,65 @@ export default function TextEditor({ textSettings, setTextSettings, disabled = f
             className={`w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${disabled ? 'bg-gray-100 cursor-not-allowed' : ''}`}
             disabled={disabled}
           >
-            {FONT_OPTIONS.map(font => (
-              <option key={font} value={font} style={{ fontFamily: font }}>
-                {font}
-              </option>
-            ))}
+            {customFonts.length > 0 && (
+              <optgroup label="Uploaded">
+                {customFonts.map(font => (
+                  <option key={font.id} value={font.family} style={{ fontFamily: font.family }}>
+                    {font.family}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+            <optgroup label="System">
+              {FONT_OPTIONS.map(font => (
+                <option key={font} value={font} style={{ fontFamily: font }}>
+                  {font}
+                </option>
+              ))}
+            </optgroup>
+            {/* Keep a font that is no longer available (e.g. removed from the library) selectable */}
+            {!FONT_OPTIONS.includes(textSettings.font) &&
+              !customFonts.some(font => font.family === textSettings.font) && (
+                <option value={textSettings.font}>{textSettings.font} (missing)</option>
+              )}
           </select>
+          {onAddFonts && (
+            <div className="mt-2">
+              <label className="block text-sm text-gray-600 mb-1" htmlFor="font-upload">
+                Upload fonts ({FONT_FILE_EXTENSIONS.join(', ')})
+              </label>
+              <input
+                id="font-upload"
+                type="file"
+                accept={FONT_FILE_EXTENSIONS.join(',')}
+                multiple
+                onChange={handleFontUpload}
+                className="text-sm"
+                disabled={disabled}
+              />
+            </div>
+          )}
+          {customFonts.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {customFonts.map(font => (
+                <li key={font.id} className="flex items-center justify-between text-sm">
+                  <span className="truncate" style={{ fontFamily: font.family }} title={font.fileName}>
+                    {font.family}
+                  </span>
+                  {onRemoveFont && (
+                    <button
+                      type="button"
+                      onClick={() => onRemoveFont(font.id)}
+                      className="ml-2 px-2 py-0.5 text-xs text-red-600 hover:bg-red-50 rounded"
+                      aria-label={`Remove ${font.family}`}
+                    >
+                      Remove
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
 
         <div>
@@ -172,6 +395,405 @@ export default function TextEditor({ textSettings, setTextSettings, disabled = f
           </div>
         </div>
 
+        <div className="pt-2">
+          <p className="block text-sm font-medium text-gray-700 mb-2">
+            Fill
+          </p>
+          <div className="grid grid-cols-4 gap-2">
+            {FILL_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => updateFill({ type: option.value })}
+                className={`text-xs py-2 px-2 rounded-md border transition-colors ${
+                  textSettings.fill.type === option.value
+                    ? 'border-blue-500 bg-blue-50 text-blue-700'
+                    : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                } ${disabled ? 'cursor-not-allowed opacity-70' : ''}`}
+                disabled={disabled}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {(textSettings.fill.type === 'linear' || textSettings.fill.type === 'radial') && (
+            <div className="mt-3 space-y-3">
+              <div
+                className="h-4 rounded border border-gray-300"
+                style={{ backgroundImage: getFillBackground({ ...textSettings.fill, type: 'linear', angle: 90 }) ?? undefined }}
+              />
+              {textSettings.fill.stops.map((stop, index) => (
+                <div key={index} className="flex items-center gap-3">
+                  <input
+                    type="color"
+                    value={stop.color}
+                    onChange={(e) => updateStop(index, { color: e.target.value })}
+                    className={`w-8 h-8 border-none rounded ${disabled ? 'cursor-not-allowed opacity-70' : 'cursor-pointer'}`}
+                    disabled={disabled}
+                    aria-label={`Stop ${index + 1} color`}
+                  />
+                  <input
+                    type="range"
+                    min="0"
+                    max="100"
+                    value={Math.round(stop.offset * 100)}
+                    onChange={(e) => updateStop(index, { offset: Number(e.target.value) / 100 })}
+                    className={`flex-1 h-2 bg-gray-200 rounded-lg appearance-none ${disabled ? 'cursor-not-allowed opacity-70' : 'cursor-pointer'}`}
+                    disabled={disabled}
+                    aria-label={`Stop ${index + 1} position`}
+                  />
+                  <span className="w-10 text-xs text-gray-600">{Math.round(stop.offset * 100)}%</span>
+                  <button
+                    type="button"
+                    onClick={() => removeStop(index)}
+                    className="text-xs text-red-600 disabled:opacity-50"
+                    disabled={disabled || textSettings.fill.stops.length <= 2}
+                    aria-label={`Remove stop ${index + 1}`}
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={addStop}
+                className="text-xs px-2 py-1 rounded border border-gray-300 bg-white hover:bg-gray-100"
+                disabled={disabled}
+              >
+                + Add Stop
+              </button>
+              {textSettings.fill.type === 'linear' && (
+                <div>
+                  <label htmlFor="fill-angle" className="block text-sm text-gray-600 mb-1">
+                    Angle: {textSettings.fill.angle}°
+                  </label>
+                  <input
+                    id="fill-angle"
+                    type="range"
+                    min="0"
+                    max="360"
+                    value={textSettings.fill.angle}
+                    onChange={(e) => updateFill({ angle: Number(e.target.value) })}
+                    className={`w-full h-2 bg-gray-200 rounded-lg appearance-none ${disabled ? 'cursor-not-allowed opacity-70' : 'cursor-pointer'}`}
+                    disabled={disabled}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {textSettings.fill.type === 'image' && (
+            <div className="mt-3 space-y-3">
+              <div className="flex items-center gap-3">
+                {textSettings.fill.image && (
+                  <img
+                    src={textSettings.fill.image}
+                    alt="Fill texture"
+                    className="w-12 h-12 object-cover rounded border border-gray-300"
+                  />
+                )}
+                <input
+                  type="file"
+                  accept="image/*"
+                  onChange={handleFillImageChange}
+                  className="text-sm"
+                  disabled={disabled}
+                  aria-label="Fill image"
+                />
+              </div>
+              <div>
+                <label htmlFor="fill-image-scale" className="block text-sm text-gray-600 mb-1">
+                  Image Scale: {Math.round(textSettings.fill.imageScale * 100)}%
+                </label>
+                <input
+                  id="fill-image-scale"
+                  type="range"
+                  min="50"
+                  max="400"
+                  value={Math.round(textSettings.fill.imageScale * 100)}
+                  onChange={(e) => updateFill({ imageScale: Number(e.target.value) / 100 })}
+                  className={`w-full h-2 bg-gray-200 rounded-lg appearance-none ${disabled ? 'cursor-not-allowed opacity-70' : 'cursor-pointer'}`}
+                  disabled={disabled}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="pt-2">
+          <p className="block text-sm font-medium text-gray-700 mb-2">
+            Style
+          </p>
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="font-weight" className="block text-sm text-gray-600 mb-1">
+                  Weight
+                </label>
+                <select
+                  id="font-weight"
+                  value={textSettings.fontWeight}
+                  onChange={(e) => updateSettings({ fontWeight: Number(e.target.value) })}
+                  className={`w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${disabled ? 'bg-gray-100 cursor-not-allowed' : ''}`}
+                  disabled={disabled}
+                >
+                  {WEIGHT_OPTIONS.map(weight => (
+                    <option key={weight} value={weight}>
+                      {weight === 400 ? '400 (Regular)' : weight === 700 ? '700 (Bold)' : weight}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-end">
+                <label className="flex items-center space-x-2 pb-2">
+                  <input
+                    type="checkbox"
+                    checked={textSettings.italic}
+                    onChange={(e) => updateSettings({ italic: e.target.checked })}
+                    disabled={disabled}
+                    className="rounded text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-600 italic">Italic</span>
+                </label>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              {ALIGN_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => updateSettings({ align: option.value })}
+                  className={`text-xs py-2 px-2 rounded-md border transition-colors ${
+                    textSettings.align === option.value
+                      ? 'border-blue-500 bg-blue-50 text-blue-700'
+                      : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                  } ${disabled ? 'cursor-not-allowed opacity-70' : ''}`}
+                  disabled={disabled}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="letter-spacing" className="block text-sm text-gray-600 mb-1">
+                  Letter Spacing: {textSettings.letterSpacing}px
+                </label>
+                <input
+                  id="letter-spacing"
+                  type="range"
+                  min="-10"
+                  max="50"
+                  step="1"
+                  value={textSettings.letterSpacing}
+                  onChange={(e) => updateSettings({ letterSpacing: Number(e.target.value) })}
+                  className={`w-full h-2 bg-gray-200 rounded-lg appearance-none ${disabled ? 'cursor-not-allowed opacity-70' : 'cursor-pointer'}`}
+                  disabled={disabled}
+                />
+              </div>
+              <div>
+                <label htmlFor="line-height" className="block text-sm text-gray-600 mb-1">
+                  Line Height: {textSettings.lineHeight.toFixed(1)}
+                </label>
+                <input
+                  id="line-height"
+                  type="range"
+                  min="0.8"
+                  max="3"
+                  step="0.1"
+                  value={textSettings.lineHeight}
+                  onChange={(e) => updateSettings({ lineHeight: Number(e.target.value) })}
+                  className={`w-full h-2 bg-gray-200 rounded-lg appearance-none ${disabled ? 'cursor-not-allowed opacity-70' : 'cursor-pointer'}`}
+                  disabled={disabled}
+                />
+              </div>
+              <div>
+                <label htmlFor="rotation" className="block text-sm text-gray-600 mb-1">
+                  Rotation: {textSettings.rotation}°
+                </label>
+                <input
+                  id="rotation"
+                  type="range"
+                  min="-180"
+                  max="180"
+                  step="1"
+                  value={textSettings.rotation}
+                  onChange={(e) => updateSettings({ rotation: Number(e.target.value) })}
+                  className={`w-full h-2 bg-gray-200 rounded-lg appearance-none ${disabled ? 'cursor-not-allowed opacity-70' : 'cursor-pointer'}`}
+                  disabled={disabled}
+                />
+              </div>
+              <div>
+                <label htmlFor="opacity" className="block text-sm text-gray-600 mb-1">
+                  Opacity: {Math.round(textSettings.opacity * 100)}%
+                </label>
+                <input
+                  id="opacity"
+                  type="range"
+                  min="0"
+                  max="100"
+                  step="1"
+                  value={Math.round(textSettings.opacity * 100)}
+                  onChange={(e) => updateSettings({ opacity: Number(e.target.value) / 100 })}
+                  className={`w-full h-2 bg-gray-200 rounded-lg appearance-none ${disabled ? 'cursor-not-allowed opacity-70' : 'cursor-pointer'}`}
+                  disabled={disabled}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 items-end">
+              <div>
+                <label htmlFor="stroke-width" className="block text-sm text-gray-600 mb-1">
+                  Outline: {textSettings.stroke.width}px
+                </label>
+                <input
+                  id="stroke-width"
+                  type="range"
+                  min="0"
+                  max="20"
+                  step="1"
+                  value={textSettings.stroke.width}
+                  onChange={(e) => updateSettings({ stroke: { ...textSettings.stroke, width: Number(e.target.value) } })}
+                  className={`w-full h-2 bg-gray-200 rounded-lg appearance-none ${disabled ? 'cursor-not-allowed opacity-70' : 'cursor-pointer'}`}
+                  disabled={disabled}
+                />
+              </div>
+              <div className="flex items-center">
+                <input
+                  type="color"
+                  value={textSettings.stroke.color}
+                  onChange={(e) => updateSettings({ stroke: { ...textSettings.stroke, color: e.target.value } })}
+                  className={`w-10 h-10 border-none rounded ${disabled ? 'cursor-not-allowed opacity-70' : 'cursor-pointer'}`}
+                  disabled={disabled}
+                  aria-label="Outline color"
+                />
+                <span className="ml-3 text-sm text-gray-600">Outline color</span>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between">
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={textSettings.shadow.enabled}
+                    onChange={(e) => updateShadow({ enabled: e.target.checked })}
+                    disabled={disabled}
+                    className="rounded text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-600">Drop Shadow</span>
+                </label>
+                <input
+                  type="color"
+                  value={textSettings.shadow.color}
+                  onChange={(e) => updateShadow({ color: e.target.value })}
+                  className={`w-8 h-8 border-none rounded ${disabled ? 'cursor-not-allowed opacity-70' : 'cursor-pointer'}`}
+                  disabled={disabled || !textSettings.shadow.enabled}
+                  aria-label="Shadow color"
+                />
+              </div>
+              {textSettings.shadow.enabled && (
+                <div className="grid grid-cols-3 gap-4 mt-2">
+                  <div>
+                    <label htmlFor="shadow-blur" className="block text-sm text-gray-600 mb-1">
+                      Blur: {textSettings.shadow.blur}px
+                    </label>
+                    <input
+                      id="shadow-blur"
+                      type="range"
+                      min="0"
+                      max="50"
+                      step="1"
+                      value={textSettings.shadow.blur}
+                      onChange={(e) => updateShadow({ blur: Number(e.target.value) })}
+                      className={`w-full h-2 bg-gray-200 rounded-lg appearance-none ${disabled ? 'cursor-not-allowed opacity-70' : 'cursor-pointer'}`}
+                      disabled={disabled}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="shadow-x" className="block text-sm text-gray-600 mb-1">
+                      X: {textSettings.shadow.offsetX}px
+                    </label>
+                    <input
+                      id="shadow-x"
+                      type="range"
+                      min="-50"
+                      max="50"
+                      step="1"
+                      value={textSettings.shadow.offsetX}
+                      onChange={(e) => updateShadow({ offsetX: Number(e.target.value) })}
+                      className={`w-full h-2 bg-gray-200 rounded-lg appearance-none ${disabled ? 'cursor-not-allowed opacity-70' : 'cursor-pointer'}`}
+                      disabled={disabled}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="shadow-y" className="block text-sm text-gray-600 mb-1">
+                      Y: {textSettings.shadow.offsetY}px
+                    </label>
+                    <input
+                      id="shadow-y"
+                      type="range"
+                      min="-50"
+                      max="50"
+                      step="1"
+                      value={textSettings.shadow.offsetY}
+                      onChange={(e) => updateShadow({ offsetY: Number(e.target.value) })}
+                      className={`w-full h-2 bg-gray-200 rounded-lg appearance-none ${disabled ? 'cursor-not-allowed opacity-70' : 'cursor-pointer'}`}
+                      disabled={disabled}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between">
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={textSettings.glow.enabled}
+                    onChange={(e) => updateGlow({ enabled: e.target.checked })}
+                    disabled={disabled}
+                    className="rounded text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-600">Glow</span>
+                </label>
+                <input
+                  type="color"
+                  value={textSettings.glow.color}
+                  onChange={(e) => updateGlow({ color: e.target.value })}
+                  className={`w-8 h-8 border-none rounded ${disabled ? 'cursor-not-allowed opacity-70' : 'cursor-pointer'}`}
+                  disabled={disabled || !textSettings.glow.enabled}
+                  aria-label="Glow color"
+                />
+              </div>
+              {textSettings.glow.enabled && (
+                <div className="mt-2">
+                  <div>
+                    <label htmlFor="glow-blur" className="block text-sm text-gray-600 mb-1">
+                      Glow Size: {textSettings.glow.blur}px
+                    </label>
+                    <input
+                      id="glow-blur"
+                      type="range"
+                      min="0"
+                      max="60"
+                      step="1"
+                      value={textSettings.glow.blur}
+                      onChange={(e) => updateGlow({ blur: Number(e.target.value) })}
+                      className={`w-full h-2 bg-gray-200 rounded-lg appearance-none ${disabled ? 'cursor-not-allowed opacity-70' : 'cursor-pointer'}`}
+                      disabled={disabled}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
         <div className="pt-2">
           <p className="block text-sm font-medium text-gray-700 mb-2">
             Text Position
@@ -219,6 +841,109 @@ export default function TextEditor({ textSettings, setTextSettings, disabled = f
             </div>
           </div>
         </div>
+
+        <div className="pt-2">
+          <p className="block text-sm font-medium text-gray-700 mb-2">
+            Depth
+          </p>
+          <div className="grid grid-cols-3 gap-2">
+            {DEPTH_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => handleDepthChange(option.value)}
+                className={`text-xs py-2 px-2 rounded-md border transition-colors ${
+                  textSettings.depth === option.value
+                    ? 'border-blue-500 bg-blue-50 text-blue-700'
+                    : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                } ${disabled ? 'cursor-not-allowed opacity-70' : ''}`}
+                disabled={disabled}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {textSettings.depth === 'split' && (
+            <div className="mt-3 space-y-3">
+              <div className="flex gap-4">
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="radio"
+                    name="split-type"
+                    checked={textSettings.split.type === 'line'}
+                    onChange={() => handleSplitChange({ type: 'line' })}
+                    disabled={disabled}
+                  />
+                  <span className="text-sm text-gray-600">Horizontal split</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="radio"
+                    name="split-type"
+                    checked={textSettings.split.type === 'region'}
+                    onChange={() => handleSplitChange({ type: 'region' })}
+                    disabled={disabled}
+                  />
+                  <span className="text-sm text-gray-600">Drawn region</span>
+                </label>
+              </div>
+
+              {textSettings.split.type === 'line' ? (
+                <>
+                  <div>
+                    <label htmlFor="split-line" className="block text-sm text-gray-600 mb-1">
+                      Split line: {Math.round(textSettings.split.linePosition)}%
+                    </label>
+                    <input
+                      id="split-line"
+                      type="range"
+                      min="0"
+                      max="100"
+                      value={textSettings.split.linePosition}
+                      onChange={(e) => handleSplitChange({ linePosition: Number(e.target.value) })}
+                      className={`w-full h-2 bg-gray-200 rounded-lg appearance-none ${disabled ? 'cursor-not-allowed opacity-70' : 'cursor-pointer'}`}
+                      disabled={disabled}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="split-side" className="block text-sm text-gray-600 mb-1">
+                      Behind subject
+                    </label>
+                    <select
+                      id="split-side"
+                      value={textSettings.split.behindSide}
+                      onChange={(e) => handleSplitChange({ behindSide: e.target.value as SplitSettings['behindSide'] })}
+                      className={`w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${disabled ? 'bg-gray-100 cursor-not-allowed' : ''}`}
+                      disabled={disabled}
+                    >
+                      <option value="above">Above the line</option>
+                      <option value="below">Below the line</option>
+                    </select>
+                  </div>
+                </>
+              ) : (
+                <div className="flex items-center gap-3">
+                  <button
+                    type="button"
+                    onClick={onDrawRegion}
+                    className={`text-xs py-2 px-3 rounded-md border transition-colors ${
+                      isDrawingRegion
+                        ? 'border-blue-500 bg-blue-50 text-blue-700'
+                        : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                    disabled={disabled || !onDrawRegion}
+                  >
+                    {isDrawingRegion ? 'Cancel drawing' : textSettings.split.region ? 'Redraw region' : 'Draw region'}
+                  </button>
+                  <span className="text-xs text-gray-500">
+                    Text inside the region goes behind the subject
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
       </div>
       
       <div className="mt-6 p-4 border border-gray-200 rounded-md bg-gray-50">
@@ -232,13 +957,7 @@ export default function TextEditor({ textSettings, setTextSettings, disabled = f
             justifyContent: 'center'
           }}
         >
-          <p
-            style={{
-              fontFamily: textSettings.font,
-              fontSize: `${Math.min(textSettings.size, 48)}px`,
-              color: textSettings.color,
-            }}
-          >
+          <p style={getPreviewStyle(textSettings)}>
             {textSettings.content || 'Your text here'}
           </p>
         </div>
@@ -0,0 +1,94 @@
+'use client';
+
+import React from 'react';
+import { TextPlacement } from '../utils/textPlacement';
+
+interface TextPlacementPanelProps {
+  // Percent of the text the subject should hide
+  targetOcclusion: number;
+  setTargetOcclusion: (value: number) => void;
+  // False for front layers, which the subject never hides
+  canOcclude?: boolean;
+  suggestions: TextPlacement[] | null;
+  // Suggestion currently applied to the layer
+  index: number;
+  onSuggest: () => void;
+  onCycle: (direction: 1 | -1) => void;
+  disabled?: boolean;
+}
+
+export default function TextPlacementPanel({
+  targetOcclusion,
+  setTargetOcclusion,
+  canOcclude = true,
+  suggestions,
+  index,
+  onSuggest,
+  onCycle,
+  disabled = false,
+}: TextPlacementPanelProps) {
+  const buttonClass =
+    'py-1 px-2 text-xs rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50';
+  const current = suggestions?.[index];
+
+  return (
+    <div className="card mt-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium">Auto Place</h3>
+        {suggestions && suggestions.length > 0 && (
+          <span className="text-xs text-gray-500">
+            {index + 1} of {suggestions.length}
+          </span>
+        )}
+      </div>
+
+      <label htmlFor="placement-occlusion" className="block text-xs text-gray-600 mb-1">
+        {canOcclude ? `Hidden behind subject: ${targetOcclusion}%` : 'Front text is never hidden by the subject'}
+      </label>
+      <input
+        id="placement-occlusion"
+        type="range"
+        min="0"
+        max="60"
+        step="5"
+        value={targetOcclusion}
+        onChange={(e) => setTargetOcclusion(Number(e.target.value))}
+        disabled={disabled || !canOcclude}
+        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+      />
+
+      <div className="flex gap-1 mt-2">
+        <button onClick={onSuggest} className={`flex-1 ${buttonClass}`} disabled={disabled}>
+          Suggest positions
+        </button>
+        <button
+          onClick={() => onCycle(-1)}
+          className={buttonClass}
+          disabled={disabled || !suggestions || suggestions.length < 2}
+          aria-label="Previous suggestion"
+        >
+          ‹
+        </button>
+        <button
+          onClick={() => onCycle(1)}
+          className={buttonClass}
+          disabled={disabled || !suggestions || suggestions.length < 2}
+          aria-label="Next suggestion"
+        >
+          ›
+        </button>
+      </div>
+
+      {suggestions && suggestions.length === 0 && (
+        <p className="text-xs text-gray-500 mt-1">
+          No spot fits this text at that amount of occlusion. Try a different amount or shorter text.
+        </p>
+      )}
+      {current && (
+        <p className="text-xs text-gray-500 mt-1">
+          {Math.round(current.occlusion * 100)}% hidden at {current.size}px
+        </p>
+      )}
+    </div>
+  );
+}
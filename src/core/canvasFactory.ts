@@ -0,0 +1,49 @@
+/**
+ * Creates the canvases and images used for compositing. The core never creates
+ * them itself: the editor installs DOM canvases and the server render installs
+ * a Node implementation, so the same drawing code runs in both places.
+ */
+export interface CanvasFactory {
+  createCanvas(width: number, height: number): Canvas;
+  // Decode an image from a URL, such as a layer's fill texture
+  loadImage(src: string): Promise<LoadedImage>;
+}
+
+// An image that can be drawn and whose size is known
+export type LoadedImage = CanvasImageSource & { width: number; height: number };
+
+// A canvas from the installed factory: a drawable image with a 2d context
+export type Canvas = LoadedImage & { getContext(contextId: '2d'): CanvasRenderingContext2D | null };
+
+let canvasFactory: CanvasFactory | null = null;
+
+export function setCanvasFactory(factory: CanvasFactory): void {
+  canvasFactory = factory;
+}
+
+function getCanvasFactory(): CanvasFactory {
+  if (!canvasFactory) {
+    throw new Error('No canvas factory installed; call setCanvasFactory first');
+  }
+  return canvasFactory;
+}
+
+export function createCanvas(width: number, height: number): Canvas {
+  return getCanvasFactory().createCanvas(width, height);
+}
+
+export function loadImage(src: string): Promise<LoadedImage> {
+  return getCanvasFactory().loadImage(src);
+}
+
+/**
+ * Create a detached canvas and its 2d context at the given size
+ */
+export function createScratchCanvas(width: number, height: number): { canvas: Canvas; ctx: CanvasRenderingContext2D } {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+  return { canvas, ctx };
+}
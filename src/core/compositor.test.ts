@@ -0,0 +1,223 @@
+import { existsSync } from 'node:fs';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { GlobalFonts, createCanvas as createNodeCanvas, loadImage as loadNodeImage } from '@napi-rs/canvas';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { Canvas, LoadedImage, setCanvasFactory } from './canvasFactory';
+import { ImagePixels, compositeImage } from './compositor';
+import { ForegroundMask, createForegroundMask } from './maskProcessing';
+import { loadFillImage } from './textFills';
+import { TextSettings, createTextLayer } from './textLayers';
+
+/*
+ * Golden-image tests: each case composites a synthetic image and compares the
+ * result with a PNG in ./golden. Run with UPDATE_GOLDEN=1 to write the PNGs
+ * again after an intended change to the output, and check the new images.
+ */
+
+const GOLDEN_DIR = join(dirname(fileURLToPath(import.meta.url)), 'golden');
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1';
+// Anti-aliasing differs slightly between platforms
+const CHANNEL_TOLERANCE = 8;
+const MAX_DIFFERENT_PIXELS = 0.005;
+
+// A font that ships with Next, so text renders the same wherever the tests run
+const FONT_PATH = createRequire(import.meta.url).resolve(
+  'next/dist/compiled/@vercel/og/noto-sans-v27-latin-regular.ttf'
+);
+const FONT = 'Golden Noto Sans';
+
+const WIDTH = 120;
+const HEIGHT = 80;
+
+beforeAll(() => {
+  setCanvasFactory({
+    createCanvas: (width, height) => createNodeCanvas(width, height) as unknown as Canvas,
+    loadImage: async (src) => (await loadNodeImage(src)) as unknown as LoadedImage,
+  });
+  GlobalFonts.registerFromPath(FONT_PATH, FONT);
+});
+
+// The subject: an ellipse in the middle of the frame with a soft edge
+function subjectCoverage(x: number, y: number, width: number, height: number): number {
+  const distance = Math.hypot((x + 0.5 - width / 2) / (width * 0.25), (y + 0.5 - height / 2) / (height * 0.35));
+  return Math.max(0, Math.min(1, (1.1 - distance) / 0.2));
+}
+
+// A vertical sky-to-ground gradient with an orange subject
+function testImage(): ImagePixels {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const i = (y * WIDTH + x) * 4;
+      const subject = subjectCoverage(x, y, WIDTH, HEIGHT);
+      const t = y / (HEIGHT - 1);
+      data[i] = (40 + 60 * t) * (1 - subject) + 240 * subject;
+      data[i + 1] = (120 + 60 * t) * (1 - subject) + 140 * subject;
+      data[i + 2] = (220 - 120 * t) * (1 - subject) + 40 * subject;
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width: WIDTH, height: HEIGHT };
+}
+
+// The subject's mask at half the image resolution, so it is resampled
+function testMask(): ForegroundMask {
+  const width = WIDTH / 2;
+  const height = HEIGHT / 2;
+  const data = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data[y * width + x] = subjectCoverage(x, y, width, height) * 255;
+    }
+  }
+  return createForegroundMask(data, width, height);
+}
+
+function layer(settings: Partial<TextSettings>) {
+  return createTextLayer({ font: FONT, size: 28, fontWeight: 400, ...settings });
+}
+
+async function expectToMatchGolden(name: string, pixels: ImagePixels): Promise<void> {
+  const path = join(GOLDEN_DIR, `${name}.png`);
+  const canvas = createNodeCanvas(pixels.width, pixels.height);
+  const ctx = canvas.getContext('2d');
+  const imageData = ctx.createImageData(pixels.width, pixels.height);
+  imageData.data.set(pixels.data);
+  ctx.putImageData(imageData, 0, 0);
+
+  if (UPDATE_GOLDEN) {
+    await mkdir(GOLDEN_DIR, { recursive: true });
+    await writeFile(path, canvas.toBuffer('image/png'));
+    return;
+  }
+  if (!existsSync(path)) {
+    throw new Error(`No golden image for "${name}"; run with UPDATE_GOLDEN=1 to create it`);
+  }
+
+  const golden = await loadNodeImage(path);
+  expect([golden.width, golden.height]).toEqual([pixels.width, pixels.height]);
+  const goldenCanvas = createNodeCanvas(golden.width, golden.height);
+  const goldenCtx = goldenCanvas.getContext('2d');
+  goldenCtx.drawImage(golden, 0, 0);
+  const expected = goldenCtx.getImageData(0, 0, golden.width, golden.height).data;
+
+  let different = 0;
+  for (let i = 0; i < expected.length; i += 4) {
+    for (let channel = 0; channel < 4; channel++) {
+      if (Math.abs(expected[i + channel] - pixels.data[i + channel]) > CHANNEL_TOLERANCE) {
+        different++;
+        break;
+      }
+    }
+  }
+  expect(different / (pixels.width * pixels.height)).toBeLessThanOrEqual(MAX_DIFFERENT_PIXELS);
+}
+
+describe('compositeImage', () => {
+  it('draws behind text under the subject and front text over it', async () => {
+    const result = compositeImage(testImage(), testMask(), [
+      layer({ content: 'BEHIND', color: '#ffffff', y: 40 }),
+      layer({
+        content: 'front',
+        color: '#202020',
+        size: 20,
+        y: 75,
+        depth: 'front',
+        stroke: { width: 1, color: '#ffffff' },
+      }),
+    ]);
+    await expectToMatchGolden('behind-and-front', result);
+  });
+
+  it('splits a layer along a line', async () => {
+    const result = compositeImage(testImage(), testMask(), [
+      layer({
+        content: 'SPLIT\nLINE',
+        color: '#ffffff',
+        size: 24,
+        depth: 'split',
+        split: { type: 'line', linePosition: 50, behindSide: 'below', region: null },
+      }),
+    ]);
+    await expectToMatchGolden('split-line', result);
+  });
+
+  it('splits a layer around a region', async () => {
+    const result = compositeImage(testImage(), testMask(), [
+      layer({
+        content: 'REGION',
+        color: '#ffe000',
+        depth: 'split',
+        split: {
+          type: 'region',
+          linePosition: 50,
+          behindSide: 'above',
+          region: { x: 40, y: 0, width: 20, height: 100 },
+        },
+      }),
+    ]);
+    await expectToMatchGolden('split-region', result);
+  });
+
+  it('keeps only the subject and the text on a transparent background', async () => {
+    const result = compositeImage(testImage(), testMask(), [layer({ content: 'ALPHA', color: '#00a0ff' })], {
+      transparentBackground: true,
+    });
+    await expectToMatchGolden('transparent-background', result);
+  });
+
+  it('draws gradient and image fills, shadows and opacity', async () => {
+    const texture = createNodeCanvas(4, 4);
+    const textureCtx = texture.getContext('2d');
+    textureCtx.fillStyle = '#ff00ff';
+    textureCtx.fillRect(0, 0, 4, 4);
+    textureCtx.fillStyle = '#00ff00';
+    textureCtx.fillRect(0, 0, 2, 2);
+    textureCtx.fillRect(2, 2, 2, 2);
+    const image = texture.toDataURL('image/png');
+    await loadFillImage(image);
+
+    const result = compositeImage(testImage(), testMask(), [
+      layer({
+        content: 'GRADIENT',
+        size: 22,
+        y: 25,
+        depth: 'front',
+        fill: {
+          type: 'linear',
+          stops: [
+            { offset: 0, color: '#ff0000' },
+            { offset: 1, color: '#0000ff' },
+          ],
+          angle: 90,
+          image: null,
+          imageScale: 1,
+        },
+        shadow: { enabled: true, color: '#000000', blur: 2, offsetX: 2, offsetY: 2 },
+      }),
+      layer({
+        content: 'IMAGE',
+        y: 70,
+        depth: 'front',
+        opacity: 0.7,
+        stroke: { width: 1, color: '#000000' },
+        fill: { type: 'image', stops: [], angle: 0, image, imageScale: 0.25 },
+      }),
+    ]);
+    await expectToMatchGolden('fills', result);
+  });
+
+  it('scales text and mask refinement to a larger output', async () => {
+    const result = compositeImage(testImage(), testMask(), [layer({ content: 'SCALED', color: '#ffffff' })], {
+      width: WIDTH * 2,
+      height: HEIGHT * 2,
+      textScale: 2,
+      maskRefinement: { feather: 4, choke: 2 },
+    });
+    expect([result.width, result.height]).toEqual([WIDTH * 2, HEIGHT * 2]);
+    await expectToMatchGolden('scaled', result);
+  });
+});
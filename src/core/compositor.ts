@@ -0,0 +1,209 @@
+import { Canvas, createScratchCanvas } from './canvasFactory';
+import { ForegroundMask, MaskRefinement, prepareMask } from './maskProcessing';
+import { TextSettings } from './textLayers';
+import { drawLayersForPass } from './textRendering';
+
+/*
+ * The compositing core: text layers drawn behind and in front of the subject
+ * of an image. Nothing in src/core depends on React, the DOM or the rest of
+ * the app; canvases and images come from the canvas factory, so the same code
+ * runs in the editor, on the server and in tests.
+ */
+
+// RGBA pixels of an image, from a browser canvas or any other decoder
+export type ImagePixels = Pick<ImageData, 'data' | 'width' | 'height'>;
+
+export interface CompositeSurfaces {
+  // Receives the final image
+  target: CanvasRenderingContext2D;
+  // Scratch surfaces for the behind and in-front text passes
+  behind: CanvasRenderingContext2D;
+  front: CanvasRenderingContext2D;
+}
+
+export interface CompositeOptions {
+  source: CanvasImageSource;
+  // Must already be at width x height
+  mask: ForegroundMask;
+  layers: TextSettings[];
+  width: number;
+  height: number;
+  // Multiplier for pixel sizes stored on layers (font size etc.), which are
+  // defined at preview resolution
+  textScale?: number;
+  // Drop everything except the subject and the text
+  transparentBackground?: boolean;
+}
+
+export interface CompositionOptions {
+  // Output size
+  width: number;
+  height: number;
+  // Multiplier for pixel sizes stored on layers, which are defined at preview resolution
+  textScale?: number;
+  // Feather and choke in output pixels, applied after resampling the mask
+  maskRefinement?: MaskRefinement;
+  transparentBackground?: boolean;
+}
+
+const NO_REFINEMENT: MaskRefinement = { feather: 0, choke: 0 };
+
+// Alpha-only images of prepared masks. Prepared masks are cached and reused
+// while only the text changes, so the conversion runs once per mask.
+const maskImages = new WeakMap<ForegroundMask, Canvas>();
+
+/**
+ * The mask as an image whose alpha channel is the foreground coverage, for use
+ * with canvas compositing operations
+ */
+export function getMaskImage(mask: ForegroundMask): Canvas {
+  const cached = maskImages.get(mask);
+  if (cached) return cached;
+
+  const { canvas, ctx } = createScratchCanvas(mask.width, mask.height);
+  const imageData = ctx.createImageData(mask.width, mask.height);
+  const pixels = imageData.data;
+  for (let i = 0; i < mask.data.length; i++) {
+    pixels[i * 4 + 3] = mask.data[i];
+  }
+  ctx.putImageData(imageData, 0, 0);
+
+  maskImages.set(mask, canvas);
+  return canvas;
+}
+
+/**
+ * Composite the text layers with the source image: behind parts are blended in
+ * proportionally to how much of each pixel is not foreground, in-front parts
+ * are drawn on top. All surfaces must be sized to width x height.
+ *
+ * Everything is done with canvas compositing operations so the browser can
+ * keep the work on the GPU; no pixels are read back.
+ */
+export function renderComposite(surfaces: CompositeSurfaces, options: CompositeOptions): void {
+  const { target, behind, front } = surfaces;
+  const { source, mask, layers, width, height, textScale = 1, transparentBackground = false } = options;
+
+  if (mask.width !== width || mask.height !== height) {
+    throw new Error(`Mask is ${mask.width}x${mask.height} but render size is ${width}x${height}`);
+  }
+
+  const maskImage = getMaskImage(mask);
+
+  // Step 1: Clear all canvases
+  target.clearRect(0, 0, width, height);
+  behind.clearRect(0, 0, width, height);
+  front.clearRect(0, 0, width, height);
+
+  // Step 2: Draw the behind and in-front parts of every layer on separate
+  // canvases, bottom of the stack first
+  drawLayersForPass(behind, layers, 'behind', width, height, textScale);
+  drawLayersForPass(front, layers, 'front', width, height, textScale);
+
+  // Step 3: Composite the behind text with the subject
+  if (transparentBackground) {
+    compositeWithoutBackground(target, behind, source, maskImage, width, height);
+  } else {
+    compositeOverBackground(target, behind, source, maskImage, width, height);
+  }
+
+  // Step 4: Draw text that sits in front of the foreground
+  target.drawImage(front.canvas, 0, 0, width, height);
+}
+
+/**
+ * Render the composition onto a new canvas of the given size. The source is
+ * stretched and the mask resampled to fit, so both may be at any resolution.
+ */
+export function renderComposition(
+  source: CanvasImageSource,
+  mask: ForegroundMask,
+  layers: TextSettings[],
+  options: CompositionOptions
+): Canvas {
+  const { width, height, textScale, maskRefinement = NO_REFINEMENT, transparentBackground } = options;
+  const target = createScratchCanvas(width, height);
+  const behind = createScratchCanvas(width, height);
+  const front = createScratchCanvas(width, height);
+
+  renderComposite(
+    { target: target.ctx, behind: behind.ctx, front: front.ctx },
+    {
+      source,
+      mask: prepareMask(mask, width, height, maskRefinement),
+      layers,
+      width,
+      height,
+      textScale,
+      transparentBackground,
+    }
+  );
+
+  return target.canvas;
+}
+
+/**
+ * Composite text layers with an image, pixels in and pixels out. The output
+ * defaults to the size of the image.
+ */
+export function compositeImage(
+  image: ImagePixels,
+  mask: ForegroundMask,
+  layers: TextSettings[],
+  options: Partial<CompositionOptions> = {}
+): ImagePixels {
+  const source = createScratchCanvas(image.width, image.height);
+  const imageData = source.ctx.createImageData(image.width, image.height);
+  imageData.data.set(image.data);
+  source.ctx.putImageData(imageData, 0, 0);
+
+  const { width = image.width, height = image.height } = options;
+  const canvas = renderComposition(source.canvas, mask, layers, { ...options, width, height });
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+  return ctx.getImageData(0, 0, width, height);
+}
+
+/**
+ * Blend text over the background, weighted by how much of each pixel is NOT
+ * foreground. Where the mask is fully opaque the original subject pixel is
+ * kept; soft edges blend proportionally.
+ */
+function compositeOverBackground(
+  target: CanvasRenderingContext2D,
+  behind: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  maskImage: Canvas,
+  width: number,
+  height: number
+): void {
+  // Scale the text alpha by (1 - mask)
+  behind.globalCompositeOperation = 'destination-out';
+  behind.drawImage(maskImage, 0, 0);
+  behind.globalCompositeOperation = 'source-over';
+
+  target.drawImage(source, 0, 0, width, height);
+  target.drawImage(behind.canvas, 0, 0);
+}
+
+/**
+ * Keep only the subject (original pixels with mask alpha) over the behind text,
+ * leaving the rest transparent. Uses the "over" operator with the subject on top.
+ */
+function compositeWithoutBackground(
+  target: CanvasRenderingContext2D,
+  behind: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  maskImage: Canvas,
+  width: number,
+  height: number
+): void {
+  target.drawImage(source, 0, 0, width, height);
+  target.globalCompositeOperation = 'destination-in';
+  target.drawImage(maskImage, 0, 0);
+  target.globalCompositeOperation = 'destination-over';
+  target.drawImage(behind.canvas, 0, 0);
+  target.globalCompositeOperation = 'source-over';
+}
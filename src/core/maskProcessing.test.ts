@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { createForegroundMask, resampleMask } from './maskProcessing';
+
+describe('resampleMask', () => {
+  it('keeps edges aligned when shrinking a wide, large mask', () => {
+    const width = 4000;
+    const height = 1000;
+    // Subject in the left half, except for the bottom 100 rows
+    const data = new Uint8ClampedArray(width * height);
+    for (let y = 0; y < 900; y++) {
+      data.fill(255, y * width, y * width + 2000);
+    }
+
+    const resampled = resampleMask(createForegroundMask(data, width, height), 1000, 250);
+    expect(resampled.width).toBe(1000);
+    expect(resampled.height).toBe(250);
+    expect(resampled.data.length).toBe(1000 * 250);
+
+    const at = (x: number, y: number) => resampled.data[y * 1000 + x];
+    for (let y = 0; y < 225; y++) {
+      expect(at(0, y)).toBe(255);
+      expect(at(499, y)).toBe(255);
+      expect(at(500, y)).toBe(0);
+      expect(at(999, y)).toBe(0);
+    }
+    for (let x = 0; x < 1000; x++) {
+      expect(at(x, 0)).toBe(x < 500 ? 255 : 0);
+      expect(at(x, 249)).toBe(0);
+    }
+  });
+
+  it('returns the same mask when the size already matches', () => {
+    const mask = createForegroundMask(new Uint8ClampedArray(6), 3, 2);
+    expect(resampleMask(mask, 3, 2)).toBe(mask);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Foreground alpha per pixel, 0 (background) to 255 (foreground), together
+ * with the resolution it was computed at
+ */
+export interface ForegroundMask {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface MaskRefinement {
+  // Blur radius in pixels applied to the mask edge
+  feather: number;
+  // Pixels to shrink (positive) or grow (negative) the mask by
+  choke: number;
+}
+
+export const DEFAULT_MASK_REFINEMENT: MaskRefinement = {
+  feather: 0,
+  choke: 0,
+};
+
+export function createForegroundMask(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number
+): ForegroundMask {
+  if (width <= 0 || height <= 0 || data.length !== width * height) {
+    throw new Error(`Mask data of length ${data.length} does not match ${width}x${height}`);
+  }
+  return { data, width, height };
+}
+
+/**
+ * Resample a mask to another resolution with bilinear interpolation, so it
+ * lines up with whatever size the image is being rendered at. Returns the
+ * same mask when the size already matches.
+ */
+export function resampleMask(mask: ForegroundMask, width: number, height: number): ForegroundMask {
+  if (mask.width === width && mask.height === height) return mask;
+
+  const output = new Uint8ClampedArray(width * height);
+  const scaleX = mask.width / width;
+  const scaleY = mask.height / height;
+
+  for (let y = 0; y < height; y++) {
+    // Sample at pixel centres so both edges map onto each other
+    const sourceY = Math.min(mask.height - 1, Math.max(0, (y + 0.5) * scaleY - 0.5));
+    const y0 = Math.floor(sourceY);
+    const y1 = Math.min(mask.height - 1, y0 + 1);
+    const fy = sourceY - y0;
+
+    for (let x = 0; x < width; x++) {
+      const sourceX = Math.min(mask.width - 1, Math.max(0, (x + 0.5) * scaleX - 0.5));
+      const x0 = Math.floor(sourceX);
+      const x1 = Math.min(mask.width - 1, x0 + 1);
+      const fx = sourceX - x0;
+
+      const top = mask.data[y0 * mask.width + x0] * (1 - fx) + mask.data[y0 * mask.width + x1] * fx;
+      const bottom = mask.data[y1 * mask.width + x0] * (1 - fx) + mask.data[y1 * mask.width + x1] * fx;
+      output[y * width + x] = top * (1 - fy) + bottom * fy;
+    }
+  }
+
+  return { data: output, width, height };
+}
+
+/**
+ * Run a sliding-window min or max filter over rows or columns of the mask
+ */
+function morphologyPass(
+  source: Uint8ClampedArray,
+  width: number,
+  height: number,
+  radius: number,
+  horizontal: boolean,
+  useMin: boolean
+): Uint8ClampedArray {
+  const output = new Uint8ClampedArray(source.length);
+  const lineCount = horizontal ? height : width;
+  const lineLength = horizontal ? width : height;
+
+  for (let line = 0; line < lineCount; line++) {
+    for (let pos = 0; pos < lineLength; pos++) {
+      let value = useMin ? 255 : 0;
+      const start = Math.max(0, pos - radius);
+      const end = Math.min(lineLength - 1, pos + radius);
+      for (let k = start; k <= end; k++) {
+        const index = horizontal ? line * width + k : k * width + line;
+        value = useMin ? Math.min(value, source[index]) : Math.max(value, source[index]);
+      }
+      output[horizontal ? line * width + pos : pos * width + line] = value;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Run a box blur over rows or columns of the mask using a running sum
+ */
+function boxBlurPass(
+  source: Uint8ClampedArray,
+  width: number,
+  height: number,
+  radius: number,
+  horizontal: boolean
+): Uint8ClampedArray {
+  const output = new Uint8ClampedArray(source.length);
+  const lineCount = horizontal ? height : width;
+  const lineLength = horizontal ? width : height;
+  const indexOf = (line: number, pos: number) =>
+    horizontal ? line * width + pos : pos * width + line;
+
+  for (let line = 0; line < lineCount; line++) {
+    let sum = 0;
+    let count = 0;
+
+    // Prime the window with the first radius + 1 values
+    for (let k = 0; k <= Math.min(radius, lineLength - 1); k++) {
+      sum += source[indexOf(line, k)];
+      count++;
+    }
+
+    for (let pos = 0; pos < lineLength; pos++) {
+      output[indexOf(line, pos)] = sum / count;
+
+      const outgoing = pos - radius;
+      const incoming = pos + radius + 1;
+      if (outgoing >= 0) {
+        sum -= source[indexOf(line, outgoing)];
+        count--;
+      }
+      if (incoming < lineLength) {
+        sum += source[indexOf(line, incoming)];
+        count++;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Shrink (positive amount) or grow (negative amount) the mask by a number of pixels
+ */
+export function chokeMask(
+  mask: Uint8ClampedArray,
+  width: number,
+  height: number,
+  amount: number
+): Uint8ClampedArray {
+  const radius = Math.round(Math.abs(amount));
+  if (radius === 0) return mask;
+
+  const erode = amount > 0;
+  const rows = morphologyPass(mask, width, height, radius, true, erode);
+  return morphologyPass(rows, width, height, radius, false, erode);
+}
+
+/**
+ * Soften the mask edge with an approximate gaussian blur (two box blur passes)
+ */
+export function featherMask(
+  mask: Uint8ClampedArray,
+  width: number,
+  height: number,
+  radius: number
+): Uint8ClampedArray {
+  if (radius <= 0) return mask;
+  const boxRadius = Math.max(1, Math.round(radius / 2));
+
+  let result = mask;
+  for (let pass = 0; pass < 2; pass++) {
+    result = boxBlurPass(result, width, height, boxRadius, true);
+    result = boxBlurPass(result, width, height, boxRadius, false);
+  }
+  return result;
+}
+
+/**
+ * Apply choke then feather to a continuous alpha mask. Distances are in pixels
+ * of the mask's own resolution. Returns the input unchanged when no refinement
+ * is requested.
+ */
+export function refineMask(mask: ForegroundMask, refinement: MaskRefinement): ForegroundMask {
+  const { width, height } = mask;
+  const choked = chokeMask(mask.data, width, height, refinement.choke);
+  const data = featherMask(choked, width, height, refinement.feather);
+  return data === mask.data ? mask : { data, width, height };
+}
+
+/**
+ * Get a mask at the given render size with refinement applied. Refinement runs
+ * after resampling so feather and choke distances are in render pixels.
+ */
+export function prepareMask(
+  mask: ForegroundMask,
+  width: number,
+  height: number,
+  refinement: MaskRefinement
+): ForegroundMask {
+  return refineMask(resampleMask(mask, width, height), refinement);
+}
@@ -0,0 +1,138 @@
+import { LoadedImage, loadImage } from './canvasFactory';
+import { FillSettings, TextSettings } from './textLayers';
+
+/**
+ * Box of a text block in its own (unrotated) coordinates, relative to the anchor
+ */
+export interface TextBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const fillImages = new Map<string, { image: LoadedImage | null; promise: Promise<LoadedImage> }>();
+
+/**
+ * Load a fill texture, sharing one image per source across all layers
+ */
+export function loadFillImage(src: string): Promise<LoadedImage> {
+  const existing = fillImages.get(src);
+  if (existing) return existing.promise;
+
+  const promise = loadImage(src).then(
+    (image) => {
+      const entry = fillImages.get(src);
+      if (entry) entry.image = image;
+      return image;
+    },
+    (error) => {
+      fillImages.delete(src);
+      throw new Error('Failed to load fill image', { cause: error });
+    }
+  );
+
+  fillImages.set(src, { image: null, promise });
+  return promise;
+}
+
+/**
+ * The texture for a source if it has finished loading
+ */
+export function getLoadedFillImage(src: string): LoadedImage | null {
+  return fillImages.get(src)?.image ?? null;
+}
+
+/**
+ * Texture sources used by layers that have not finished loading yet
+ */
+export function getPendingFillImages(layers: TextSettings[]): string[] {
+  const sources = layers
+    .filter((layer) => layer.fill.type === 'image' && layer.fill.image)
+    .map((layer) => layer.fill.image as string);
+  return Array.from(new Set(sources)).filter((src) => !getLoadedFillImage(src));
+}
+
+/**
+ * Build the fill style for a layer, fitted to its text block. Falls back to
+ * the solid layer color when a texture is not available yet.
+ */
+export function createFillStyle(
+  ctx: CanvasRenderingContext2D,
+  layer: TextSettings,
+  bounds: TextBounds
+): string | CanvasGradient | CanvasPattern {
+  const { fill } = layer;
+  const centerX = bounds.x + bounds.width / 2;
+  const centerY = bounds.y + bounds.height / 2;
+
+  if ((fill.type === 'linear' || fill.type === 'radial') && fill.stops.length > 0) {
+    let gradient: CanvasGradient;
+    if (fill.type === 'linear') {
+      const radians = (fill.angle * Math.PI) / 180;
+      const dx = Math.sin(radians);
+      const dy = -Math.cos(radians);
+      // Half the length of the box projected onto the gradient direction
+      const halfLength = (Math.abs(bounds.width * dx) + Math.abs(bounds.height * dy)) / 2;
+      gradient = ctx.createLinearGradient(
+        centerX - dx * halfLength,
+        centerY - dy * halfLength,
+        centerX + dx * halfLength,
+        centerY + dy * halfLength
+      );
+    } else {
+      const radius = Math.max(1, Math.hypot(bounds.width, bounds.height) / 2);
+      gradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, radius);
+    }
+
+    sortStops(fill).forEach((stop) => {
+      gradient.addColorStop(Math.max(0, Math.min(1, stop.offset)), stop.color);
+    });
+    return gradient;
+  }
+
+  if (fill.type === 'image' && fill.image) {
+    const image = getLoadedFillImage(fill.image);
+    const pattern = image ? ctx.createPattern(image, 'repeat') : null;
+    if (image && pattern) {
+      // Scale the texture to cover the text block, centred on it
+      const scale =
+        Math.max(bounds.width / image.width, bounds.height / image.height) * Math.max(0.1, fill.imageScale);
+      pattern.setTransform({
+        a: scale,
+        b: 0,
+        c: 0,
+        d: scale,
+        e: centerX - (image.width * scale) / 2,
+        f: centerY - (image.height * scale) / 2,
+      });
+      return pattern;
+    }
+  }
+
+  return layer.color;
+}
+
+function sortStops(fill: FillSettings) {
+  return [...fill.stops].sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * CSS background approximating the fill, for previews using background-clip: text
+ */
+export function getFillBackground(fill: FillSettings): string | null {
+  const stops = sortStops(fill)
+    .map((stop) => `${stop.color} ${Math.round(stop.offset * 100)}%`)
+    .join(', ');
+
+  switch (fill.type) {
+    case 'linear':
+      return `linear-gradient(${fill.angle}deg, ${stops})`;
+    case 'radial':
+      return `radial-gradient(circle, ${stops})`;
+    case 'image':
+      return fill.image ? `url(${fill.image})` : null;
+    default:
+      return null;
+  }
+}
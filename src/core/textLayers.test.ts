@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TEXT_SETTINGS, normalizeTextLayer } from './textLayers';
+
+describe('normalizeTextLayer', () => {
+  it('keeps valid settings and the given id', () => {
+    const layer = normalizeTextLayer({ id: 'layer-1', content: 'Hello', depth: 'split', split: { type: 'region' } });
+    expect(layer.id).toBe('layer-1');
+    expect(layer.content).toBe('Hello');
+    expect(layer.depth).toBe('split');
+    expect(layer.split.type).toBe('region');
+    expect(layer.split.behindSide).toBe(DEFAULT_TEXT_SETTINGS.split.behindSide);
+  });
+
+  it('falls back to the defaults for values of the wrong type', () => {
+    const layer = normalizeTextLayer({
+      content: 5,
+      size: 'big',
+      depth: 'sideways',
+      align: 'justify',
+      italic: 'yes',
+      split: { type: 'diagonal', region: { x: 1 } },
+      stroke: 'thick',
+      fill: { type: 'plaid', stops: [{ offset: 0 }] },
+    });
+    expect(layer.content).toBe(DEFAULT_TEXT_SETTINGS.content);
+    expect(layer.size).toBe(DEFAULT_TEXT_SETTINGS.size);
+    expect(layer.depth).toBe(DEFAULT_TEXT_SETTINGS.depth);
+    expect(layer.align).toBe(DEFAULT_TEXT_SETTINGS.align);
+    expect(layer.italic).toBe(DEFAULT_TEXT_SETTINGS.italic);
+    expect(layer.split.type).toBe(DEFAULT_TEXT_SETTINGS.split.type);
+    expect(layer.split.region).toBeNull();
+    expect(layer.stroke).toEqual(DEFAULT_TEXT_SETTINGS.stroke);
+    expect(layer.fill.type).toBe(DEFAULT_TEXT_SETTINGS.fill.type);
+    expect(layer.fill.stops).toEqual(DEFAULT_TEXT_SETTINGS.fill.stops);
+  });
+});
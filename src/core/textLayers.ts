@@ -0,0 +1,313 @@
+export type LayerDepth = 'behind' | 'front' | 'split';
+
+/**
+ * Rectangle in percentages of the image size
+ */
+export interface OcclusionRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * How a 'split' layer is divided between behind and in front of the subject.
+ * With 'line' the part of the text on `behindSide` of a horizontal line sits
+ * behind the subject; with 'region' only the text inside `region` does.
+ */
+export interface SplitSettings {
+  type: 'line' | 'region';
+  linePosition: number;
+  behindSide: 'above' | 'below';
+  region: OcclusionRegion | null;
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface StrokeSettings {
+  // Outline width in preview pixels; 0 disables the outline
+  width: number;
+  color: string;
+}
+
+export interface ShadowSettings {
+  enabled: boolean;
+  color: string;
+  blur: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export interface GlowSettings {
+  enabled: boolean;
+  color: string;
+  blur: number;
+}
+
+export type FillType = 'solid' | 'linear' | 'radial' | 'image';
+
+export interface GradientStop {
+  // 0-1 along the gradient
+  offset: number;
+  color: string;
+}
+
+/**
+ * How the glyphs are filled. 'solid' uses the layer color; gradients and
+ * images are fitted to the text block.
+ */
+export interface FillSettings {
+  type: FillType;
+  stops: GradientStop[];
+  // Degrees, CSS convention: 0 points up, 90 points right
+  angle: number;
+  // Data URL of the texture image for 'image' fills
+  image: string | null;
+  // Multiplier on top of scaling the image to cover the text block
+  imageScale: number;
+}
+
+export interface TextSettings {
+  content: string;
+  font: string;
+  size: number;
+  color: string;
+  x: number;
+  y: number;
+  depth: LayerDepth;
+  split: SplitSettings;
+  fontWeight: number;
+  italic: boolean;
+  align: TextAlign;
+  // Extra space between characters in preview pixels
+  letterSpacing: number;
+  // Multiple of the font size
+  lineHeight: number;
+  // Degrees, clockwise around the text anchor
+  rotation: number;
+  // 0-1
+  opacity: number;
+  stroke: StrokeSettings;
+  shadow: ShadowSettings;
+  glow: GlowSettings;
+  fill: FillSettings;
+}
+
+export interface TextLayer extends TextSettings {
+  id: string;
+  name: string;
+}
+
+export const DEFAULT_TEXT_SETTINGS: TextSettings = {
+  content: 'Your custom text here',
+  font: 'Arial',
+  size: 24,
+  color: '#ffffff',
+  x: 50,
+  y: 50,
+  depth: 'behind',
+  split: {
+    type: 'line',
+    linePosition: 50,
+    behindSide: 'above',
+    region: null,
+  },
+  fontWeight: 400,
+  italic: false,
+  align: 'center',
+  letterSpacing: 0,
+  lineHeight: 1.2,
+  rotation: 0,
+  opacity: 1,
+  stroke: {
+    width: 0,
+    color: '#000000',
+  },
+  shadow: {
+    enabled: false,
+    color: '#000000',
+    blur: 8,
+    offsetX: 4,
+    offsetY: 4,
+  },
+  glow: {
+    enabled: false,
+    color: '#ffffff',
+    blur: 12,
+  },
+  fill: {
+    type: 'solid',
+    stops: [
+      { offset: 0, color: '#ffffff' },
+      { offset: 1, color: '#0ea5e9' },
+    ],
+    angle: 90,
+    image: null,
+    imageScale: 1,
+  },
+};
+
+let layerCounter = 0;
+
+function generateLayerId(): string {
+  layerCounter += 1;
+  return `layer-${Date.now().toString(36)}-${layerCounter}`;
+}
+
+/**
+ * Create a new text layer, using the default settings for anything not provided
+ */
+export function createTextLayer(settings: Partial<TextSettings> = {}, name?: string): TextLayer {
+  return {
+    ...DEFAULT_TEXT_SETTINGS,
+    ...settings,
+    split: { ...DEFAULT_TEXT_SETTINGS.split, ...settings.split },
+    stroke: { ...DEFAULT_TEXT_SETTINGS.stroke, ...settings.stroke },
+    shadow: { ...DEFAULT_TEXT_SETTINGS.shadow, ...settings.shadow },
+    glow: { ...DEFAULT_TEXT_SETTINGS.glow, ...settings.glow },
+    fill: { ...DEFAULT_TEXT_SETTINGS.fill, ...settings.fill },
+    id: generateLayerId(),
+    name: name ?? 'Text layer',
+  };
+}
+
+/**
+ * A layer from saved or external JSON, with settings added since it was
+ * written filled in. Keeps the given id. Values of the wrong type fall back
+ * to the defaults so a bad file can't break rendering.
+ */
+export function normalizeTextLayer(raw: Record<string, unknown>): TextLayer {
+  const defaults = DEFAULT_TEXT_SETTINGS;
+  const split = asRecord(raw.split);
+  const stroke = asRecord(raw.stroke);
+  const shadow = asRecord(raw.shadow);
+  const glow = asRecord(raw.glow);
+  const fill = asRecord(raw.fill);
+
+  const layer = createTextLayer(
+    {
+      content: readString(raw.content, defaults.content),
+      font: readString(raw.font, defaults.font),
+      size: readNumber(raw.size, defaults.size),
+      color: readString(raw.color, defaults.color),
+      x: readNumber(raw.x, defaults.x),
+      y: readNumber(raw.y, defaults.y),
+      depth: readOption(raw.depth, LAYER_DEPTHS, defaults.depth),
+      split: {
+        type: readOption(split.type, SPLIT_TYPES, defaults.split.type),
+        linePosition: readNumber(split.linePosition, defaults.split.linePosition),
+        behindSide: readOption(split.behindSide, BEHIND_SIDES, defaults.split.behindSide),
+        region: readRegion(split.region),
+      },
+      fontWeight: readNumber(raw.fontWeight, defaults.fontWeight),
+      italic: readBoolean(raw.italic, defaults.italic),
+      align: readOption(raw.align, TEXT_ALIGNS, defaults.align),
+      letterSpacing: readNumber(raw.letterSpacing, defaults.letterSpacing),
+      lineHeight: readNumber(raw.lineHeight, defaults.lineHeight),
+      rotation: readNumber(raw.rotation, defaults.rotation),
+      opacity: readNumber(raw.opacity, defaults.opacity),
+      stroke: {
+        width: readNumber(stroke.width, defaults.stroke.width),
+        color: readString(stroke.color, defaults.stroke.color),
+      },
+      shadow: {
+        enabled: readBoolean(shadow.enabled, defaults.shadow.enabled),
+        color: readString(shadow.color, defaults.shadow.color),
+        blur: readNumber(shadow.blur, defaults.shadow.blur),
+        offsetX: readNumber(shadow.offsetX, defaults.shadow.offsetX),
+        offsetY: readNumber(shadow.offsetY, defaults.shadow.offsetY),
+      },
+      glow: {
+        enabled: readBoolean(glow.enabled, defaults.glow.enabled),
+        color: readString(glow.color, defaults.glow.color),
+        blur: readNumber(glow.blur, defaults.glow.blur),
+      },
+      fill: {
+        type: readOption(fill.type, FILL_TYPES, defaults.fill.type),
+        stops: readGradientStops(fill.stops),
+        angle: readNumber(fill.angle, defaults.fill.angle),
+        image: typeof fill.image === 'string' ? fill.image : defaults.fill.image,
+        imageScale: readNumber(fill.imageScale, defaults.fill.imageScale),
+      },
+    },
+    typeof raw.name === 'string' ? raw.name : undefined
+  );
+  return typeof raw.id === 'string' ? { ...layer, id: raw.id } : layer;
+}
+
+export const LAYER_DEPTHS: readonly LayerDepth[] = ['behind', 'front', 'split'];
+const SPLIT_TYPES: readonly SplitSettings['type'][] = ['line', 'region'];
+const BEHIND_SIDES: readonly SplitSettings['behindSide'][] = ['above', 'below'];
+const TEXT_ALIGNS: readonly TextAlign[] = ['left', 'center', 'right'];
+const FILL_TYPES: readonly FillType[] = ['solid', 'linear', 'radial', 'image'];
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function readString(value: unknown, fallback: string): string {
+  return typeof value === 'string' ? value : fallback;
+}
+
+function readNumber(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+function readBoolean(value: unknown, fallback: boolean): boolean {
+  return typeof value === 'boolean' ? value : fallback;
+}
+
+function readOption<T extends string>(value: unknown, options: readonly T[], fallback: T): T {
+  return options.includes(value as T) ? (value as T) : fallback;
+}
+
+function readRegion(value: unknown): OcclusionRegion | null {
+  const region = asRecord(value);
+  const { x, y, width, height } = region;
+  return [x, y, width, height].every((n) => typeof n === 'number' && Number.isFinite(n))
+    ? { x: x as number, y: y as number, width: width as number, height: height as number }
+    : null;
+}
+
+function readGradientStops(value: unknown): GradientStop[] {
+  const fallback = DEFAULT_TEXT_SETTINGS.fill.stops;
+  if (!Array.isArray(value)) return fallback.map((stop) => ({ ...stop }));
+  const stops = value
+    .map(asRecord)
+    .filter((stop) => typeof stop.offset === 'number' && Number.isFinite(stop.offset) && typeof stop.color === 'string')
+    .map((stop) => ({ offset: stop.offset as number, color: stop.color as string }));
+  // Gradients need at least two stops
+  return stops.length >= 2 ? stops : fallback.map((stop) => ({ ...stop }));
+}
+
+/**
+ * Copy a layer with a fresh id, nudged slightly so the copy is visible
+ */
+export function duplicateTextLayer(layer: TextLayer): TextLayer {
+  return {
+    ...layer,
+    split: { ...layer.split },
+    stroke: { ...layer.stroke },
+    shadow: { ...layer.shadow },
+    glow: { ...layer.glow },
+    fill: { ...layer.fill, stops: layer.fill.stops.map(stop => ({ ...stop })) },
+    id: generateLayerId(),
+    name: `${layer.name} copy`,
+    x: Math.min(100, layer.x + 2),
+    y: Math.min(100, layer.y + 2),
+  };
+}
+
+/**
+ * Move a layer up (towards the top of the stack) or down by one position.
+ * Layers are stored bottom-first, so index 0 is drawn first.
+ */
+export function moveTextLayer(layers: TextLayer[], id: string, direction: 'up' | 'down'): TextLayer[] {
+  const index = layers.findIndex(layer => layer.id === id);
+  const target = direction === 'up' ? index + 1 : index - 1;
+  if (index === -1 || target < 0 || target >= layers.length) return layers;
+
+  const next = [...layers];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
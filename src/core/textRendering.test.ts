@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TEXT_SETTINGS } from './textLayers';
+import { getFontString } from './textRendering';
+
+describe('getFontString', () => {
+  it('quotes family names so names with digits stay valid', () => {
+    const layer = { ...DEFAULT_TEXT_SETTINGS, font: 'Inter 18pt-Regular', fontWeight: 700, italic: true };
+    expect(getFontString(layer, 32)).toBe('italic 700 32px "Inter 18pt-Regular"');
+  });
+
+  it('escapes quotes in family names', () => {
+    const layer = { ...DEFAULT_TEXT_SETTINGS, font: 'My "Font"' };
+    expect(getFontString(layer, 10)).toBe('400 10px "My \\"Font\\""');
+  });
+
+  it('leaves generic family keywords unquoted', () => {
+    for (const font of ['monospace', 'sans-serif', 'system-ui', 'cursive', 'fantasy', 'ui-rounded']) {
+      expect(getFontString({ ...DEFAULT_TEXT_SETTINGS, font }, 12)).toBe(`400 12px ${font}`);
+    }
+  });
+
+  it('quotes custom names that only look like keywords', () => {
+    const layer = { ...DEFAULT_TEXT_SETTINGS, font: 'Monospace Pro' };
+    expect(getFontString(layer, 12)).toBe('400 12px "Monospace Pro"');
+  });
+});
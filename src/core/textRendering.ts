@@ -0,0 +1,314 @@
+import { Canvas, createScratchCanvas } from './canvasFactory';
+import { TextSettings } from './textLayers';
+import { TextBounds, createFillStyle } from './textFills';
+
+export type DepthPass = 'behind' | 'front';
+
+export type DrawingContext = CanvasRenderingContext2D;
+
+let scratchSurface: { canvas: Canvas; ctx: CanvasRenderingContext2D } | null = null;
+
+/**
+ * Reusable scratch surface for layers that need to be flattened before their
+ * opacity is applied
+ */
+function getScratchSurface(width: number, height: number): DrawingContext {
+  if (!scratchSurface) {
+    scratchSurface = createScratchCanvas(width, height);
+  }
+
+  const { canvas, ctx } = scratchSurface;
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  } else {
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+  }
+  return ctx;
+}
+
+// CSS generic family keywords, which stop working when quoted
+const GENERIC_FAMILIES = new Set([
+  'serif',
+  'sans-serif',
+  'monospace',
+  'cursive',
+  'fantasy',
+  'system-ui',
+  'ui-serif',
+  'ui-sans-serif',
+  'ui-monospace',
+  'ui-rounded',
+  'math',
+  'emoji',
+  'fangsong',
+]);
+
+/**
+ * CSS font shorthand for a layer at the given pixel size
+ */
+export function getFontString(layer: TextSettings, fontSize: number): string {
+  // Other names are quoted, since uploaded family names can contain words
+  // starting with a digit
+  const family = GENERIC_FAMILIES.has(layer.font)
+    ? layer.font
+    : `"${layer.font.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  return `${layer.italic ? 'italic ' : ''}${layer.fontWeight} ${fontSize}px ${family}`;
+}
+
+/**
+ * Width of a line as drawn by drawLine
+ */
+function measureLine(ctx: DrawingContext, text: string, letterSpacing: number): number {
+  if (letterSpacing === 0) return ctx.measureText(text).width;
+
+  const characters = Array.from(text);
+  return (
+    characters.reduce((sum, character) => sum + ctx.measureText(character).width, 0) +
+    letterSpacing * Math.max(0, characters.length - 1)
+  );
+}
+
+/**
+ * Box around all lines of a layer relative to its anchor, before rotation
+ */
+function measureTextBlock(
+  ctx: DrawingContext,
+  layer: TextSettings,
+  lines: string[],
+  lineHeight: number,
+  letterSpacing: number
+): TextBounds {
+  const width = Math.max(1, ...lines.map((line) => measureLine(ctx, line, letterSpacing)));
+  const height = Math.max(1, lines.length * lineHeight);
+  const x = layer.align === 'left' ? 0 : layer.align === 'right' ? -width : -width / 2;
+  return { x, y: -height / 2, width, height };
+}
+
+/**
+ * Box around a layer's text relative to its anchor at the given scale, before
+ * rotation. Leaves the context's font changed.
+ */
+export function measureTextLayer(ctx: DrawingContext, layer: TextSettings, scale: number = 1): TextBounds {
+  const fontSize = layer.size * scale;
+  ctx.font = getFontString(layer, fontSize);
+  return measureTextBlock(ctx, layer, layer.content.split('\n'), fontSize * layer.lineHeight, layer.letterSpacing * scale);
+}
+
+/**
+ * Draw one line of text. Letter spacing is applied by placing characters one
+ * at a time, which works the same in every browser.
+ */
+function drawLine(
+  ctx: DrawingContext,
+  text: string,
+  y: number,
+  layer: TextSettings,
+  letterSpacing: number,
+  mode: 'fill' | 'stroke'
+): void {
+  const draw = (value: string, x: number) =>
+    mode === 'fill' ? ctx.fillText(value, x, y) : ctx.strokeText(value, x, y);
+
+  if (letterSpacing === 0) {
+    ctx.textAlign = layer.align;
+    draw(text, 0);
+    return;
+  }
+
+  const characters = Array.from(text);
+  const widths = characters.map((character) => ctx.measureText(character).width);
+  const totalWidth =
+    widths.reduce((sum, width) => sum + width, 0) + letterSpacing * Math.max(0, characters.length - 1);
+
+  let cursor = layer.align === 'left' ? 0 : layer.align === 'right' ? -totalWidth : -totalWidth / 2;
+  ctx.textAlign = 'left';
+  characters.forEach((character, index) => {
+    draw(character, cursor);
+    cursor += widths[index] + letterSpacing;
+  });
+}
+
+/**
+ * Paint the layer's lines around the current origin: glow and shadow passes
+ * first, then the outline, then the fill
+ */
+function paintText(ctx: DrawingContext, layer: TextSettings, scale: number): void {
+  const fontSize = layer.size * scale;
+  const lines = layer.content.split('\n');
+  const lineHeight = fontSize * layer.lineHeight;
+  const letterSpacing = layer.letterSpacing * scale;
+  const strokeWidth = layer.stroke.width * scale;
+
+  ctx.font = getFontString(layer, fontSize);
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = createFillStyle(ctx, layer, measureTextBlock(ctx, layer, lines, lineHeight, letterSpacing));
+  ctx.strokeStyle = layer.stroke.color;
+  // The outline is centred on the glyph edge, so double it to get the visible width
+  ctx.lineWidth = strokeWidth * 2;
+  ctx.lineJoin = 'round';
+
+  const paint = () => {
+    lines.forEach((line, index) => {
+      const lineY = (index - lines.length / 2 + 0.5) * lineHeight;
+      if (strokeWidth > 0) {
+        drawLine(ctx, line, lineY, layer, letterSpacing, 'stroke');
+      }
+      drawLine(ctx, line, lineY, layer, letterSpacing, 'fill');
+    });
+  };
+
+  if (layer.glow.enabled) {
+    ctx.shadowColor = layer.glow.color;
+    ctx.shadowBlur = layer.glow.blur * scale;
+    ctx.shadowOffsetX = 0;
+    ctx.shadowOffsetY = 0;
+    paint();
+  }
+
+  if (layer.shadow.enabled) {
+    ctx.shadowColor = layer.shadow.color;
+    ctx.shadowBlur = layer.shadow.blur * scale;
+    ctx.shadowOffsetX = layer.shadow.offsetX * scale;
+    ctx.shadowOffsetY = layer.shadow.offsetY * scale;
+    paint();
+  }
+
+  ctx.shadowColor = 'transparent';
+  ctx.shadowBlur = 0;
+  ctx.shadowOffsetX = 0;
+  ctx.shadowOffsetY = 0;
+  paint();
+}
+
+/**
+ * Draw a single text layer onto a canvas context at the given render size.
+ * Position is stored in percentages so the same layer renders at any size;
+ * `scale` maps pixel sizes from preview resolution to the render size.
+ */
+export function drawTextLayer(
+  ctx: DrawingContext,
+  layer: TextSettings,
+  width: number,
+  height: number,
+  scale: number = 1
+): void {
+  if (layer.opacity <= 0) return;
+
+  // Calculate text position based on percentages
+  const textX = (layer.x / 100) * width;
+  const textY = (layer.y / 100) * height;
+  const placeText = (target: DrawingContext) => {
+    target.translate(textX, textY);
+    target.rotate((layer.rotation * Math.PI) / 180);
+  };
+
+  // Overlapping passes would compound a translucent layer, so flatten it first
+  const hasMultiplePasses = layer.stroke.width > 0 || layer.shadow.enabled || layer.glow.enabled;
+  if (layer.opacity < 1 && hasMultiplePasses) {
+    const scratch = getScratchSurface(width, height);
+    scratch.save();
+    placeText(scratch);
+    paintText(scratch, layer, scale);
+    scratch.restore();
+
+    ctx.save();
+    ctx.globalAlpha = layer.opacity;
+    ctx.drawImage(scratch.canvas, 0, 0);
+    ctx.restore();
+    return;
+  }
+
+  ctx.save();
+  ctx.globalAlpha = layer.opacity;
+  placeText(ctx);
+  paintText(ctx, layer, scale);
+  ctx.restore();
+}
+
+/**
+ * Whether any part of the layer is drawn in the given depth pass
+ */
+export function layerHasPass(layer: TextSettings, pass: DepthPass): boolean {
+  if (layer.depth === 'split') {
+    // A region split without a region yet behaves like a plain front layer
+    return pass === 'front' || layer.split.type === 'line' || layer.split.region !== null;
+  }
+  return layer.depth === pass;
+}
+
+/**
+ * Clip the context to the part of the canvas where the layer belongs to the
+ * given depth pass. Only split layers need clipping; call inside save/restore.
+ */
+export function clipToDepthPass(
+  ctx: DrawingContext,
+  layer: TextSettings,
+  pass: DepthPass,
+  width: number,
+  height: number
+): void {
+  if (layer.depth !== 'split') return;
+
+  const { split } = layer;
+  // Clip with the context's own path, which Node canvases support too
+  ctx.beginPath();
+
+  if (split.type === 'line') {
+    const lineY = (split.linePosition / 100) * height;
+    const behindAbove = split.behindSide === 'above';
+    const clipAbove = pass === 'behind' ? behindAbove : !behindAbove;
+    if (clipAbove) {
+      ctx.rect(0, 0, width, lineY);
+    } else {
+      ctx.rect(0, lineY, width, height - lineY);
+    }
+    ctx.clip();
+    return;
+  }
+
+  if (!split.region) {
+    // No region drawn yet: the whole layer is in front, nothing is behind
+    if (pass === 'behind') {
+      ctx.clip();
+    }
+    return;
+  }
+
+  const regionX = (split.region.x / 100) * width;
+  const regionY = (split.region.y / 100) * height;
+  const regionWidth = (split.region.width / 100) * width;
+  const regionHeight = (split.region.height / 100) * height;
+
+  if (pass === 'behind') {
+    ctx.rect(regionX, regionY, regionWidth, regionHeight);
+    ctx.clip();
+  } else {
+    // Everything except the region
+    ctx.rect(0, 0, width, height);
+    ctx.rect(regionX, regionY, regionWidth, regionHeight);
+    ctx.clip('evenodd');
+  }
+}
+
+/**
+ * Draw the parts of all layers that belong to a depth pass, bottom of the
+ * stack first
+ */
+export function drawLayersForPass(
+  ctx: DrawingContext,
+  layers: TextSettings[],
+  pass: DepthPass,
+  width: number,
+  height: number,
+  scale: number = 1
+): void {
+  layers.forEach((layer) => {
+    if (!layerHasPass(layer, pass)) return;
+    ctx.save();
+    clipToDepthPass(ctx, layer, pass, width, height);
+    drawTextLayer(ctx, layer, width, height, scale);
+    ctx.restore();
+  });
+}
@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { BatchItem, createBatchItem } from '../utils/batch';
+import { DetectionError, ForegroundDetector, isAbortError } from '../utils/foregroundDetection';
+import { detectForegroundCached } from '../utils/segmentationCache';
+
+/**
+ * A queue of images that runs detection on one at a time, in the order they
+ * were added. Each item reports its own progress and result.
+ */
+export function useBatchQueue(detector: ForegroundDetector) {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  // The detection in progress, so removing its item can cancel it
+  const runningRef = useRef<{ id: string; controller: AbortController } | null>(null);
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+
+  const updateItem = useCallback((id: string, changes: Partial<BatchItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  useEffect(() => {
+    if (runningRef.current) return;
+    const next = items.find((item) => item.status === 'queued');
+    if (!next) return;
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    runningRef.current = { id: next.id, controller };
+    updateItem(next.id, { status: 'processing', progress: null, error: null });
+
+    detectForegroundCached(detector, next.file, {
+      signal,
+      onProgress: (progress) => {
+        if (!signal.aborted) updateItem(next.id, { progress });
+      },
+    })
+      .then((result) => {
+        // Only the mask and cutout are kept; the URL is made when needed
+        URL.revokeObjectURL(result.foregroundUrl);
+        if (signal.aborted) return;
+        updateItem(next.id, { status: 'done', progress: null, mask: result.mask, cutout: result.cutout });
+      })
+      .catch((error) => {
+        if (isAbortError(error) || signal.aborted) return;
+        console.error(`Error processing ${next.file.name}:`, error);
+        updateItem(next.id, {
+          status: 'error',
+          progress: null,
+          error: error instanceof DetectionError ? error.message : 'Background removal failed',
+        });
+      })
+      .finally(() => {
+        if (runningRef.current?.controller === controller) {
+          runningRef.current = null;
+          // Let the effect pick up the next item
+          setItems((prev) => [...prev]);
+        }
+      });
+  }, [items, detector, updateItem]);
+
+  // Cancel the running detection and free thumbnails when unmounting
+  useEffect(
+    () => () => {
+      runningRef.current?.controller.abort();
+      runningRef.current = null;
+      itemsRef.current.forEach((item) => URL.revokeObjectURL(item.previewUrl));
+    },
+    []
+  );
+
+  const addFiles = useCallback((files: File[]) => {
+    const added = files.map(createBatchItem);
+    setItems((prev) => [...prev, ...added]);
+    return added;
+  }, []);
+
+  const removeItem = useCallback((id: string) => {
+    if (runningRef.current?.id === id) {
+      runningRef.current.controller.abort();
+      runningRef.current = null;
+    }
+    setItems((prev) => {
+      const item = prev.find((candidate) => candidate.id === id);
+      if (item) URL.revokeObjectURL(item.previewUrl);
+      return prev.filter((candidate) => candidate.id !== id);
+    });
+  }, []);
+
+  const clear = useCallback(() => {
+    runningRef.current?.controller.abort();
+    runningRef.current = null;
+    setItems((prev) => {
+      prev.forEach((item) => URL.revokeObjectURL(item.previewUrl));
+      return [];
+    });
+  }, []);
+
+  const retryItem = useCallback(
+    (id: string) => updateItem(id, { status: 'queued', error: null }),
+    [updateItem]
+  );
+
+  return { items, addFiles, updateItem, removeItem, retryItem, clear };
+}
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  FontAsset,
+  StoredFont,
+  deleteStoredFont,
+  familyFromFileName,
+  isFontFile,
+  isSameFontData,
+  listStoredFonts,
+  registerFont,
+  storeFont,
+  uniqueFamilyName,
+  unregisterFont,
+} from '../utils/fontLibrary';
+
+/**
+ * Fonts uploaded by the user, persisted in IndexedDB and registered with the
+ * document on load
+ */
+export function useFontLibrary() {
+  const [fonts, setFonts] = useState<StoredFont[]>([]);
+  // Includes fonts added since the last render, so several fonts added in a
+  // row see each other
+  const fontsRef = useRef(fonts);
+  fontsRef.current = fonts;
+
+  // Restore the library from previous sessions
+  useEffect(() => {
+    let cancelled = false;
+
+    listStoredFonts()
+      .then(async (stored) => {
+        await Promise.all(
+          stored.map((font) =>
+            registerFont(font).catch((error) => console.error(`Error registering font ${font.family}:`, error))
+          )
+        );
+        if (!cancelled) setFonts(stored);
+      })
+      .catch((error) => console.error('Error loading font library:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Add a font unless the same file is already in the library. A different
+  // font with the same family name is added under a new name, so check the
+  // family of the returned font.
+  const addFont = useCallback(async (font: FontAsset): Promise<StoredFont> => {
+    const existing = fontsRef.current.find((stored) => isSameFontData(stored.data, font.data));
+    if (existing) return existing;
+
+    const families = fontsRef.current.map((stored) => stored.family);
+    const unique = { ...font, family: uniqueFamilyName(font.family, families) };
+    await registerFont(unique);
+    const stored = await storeFont(unique);
+    fontsRef.current = [...fontsRef.current, stored];
+    setFonts((prev) => [...prev, stored]);
+    return stored;
+  }, []);
+
+  // Upload font files; returns the families of the uploaded fonts, including
+  // ones that were already in the library
+  const addFontFiles = useCallback(
+    async (files: File[]): Promise<string[]> => {
+      const added: StoredFont[] = [];
+      const uploaded: string[] = [];
+
+      for (const file of files) {
+        if (!isFontFile(file)) {
+          alert(`${file.name} is not a supported font file (TTF, OTF, WOFF or WOFF2).`);
+          continue;
+        }
+
+        const data = await file.arrayBuffer();
+        const existing = fontsRef.current.find((stored) => isSameFontData(stored.data, data));
+        if (existing) {
+          uploaded.push(existing.family);
+          continue;
+        }
+        const font: FontAsset = {
+          family: familyFromFileName(file.name, fontsRef.current.map((stored) => stored.family)),
+          fileName: file.name,
+          data,
+        };
+
+        try {
+          await registerFont(font);
+          const stored = await storeFont(font);
+          fontsRef.current = [...fontsRef.current, stored];
+          added.push(stored);
+          uploaded.push(font.family);
+        } catch (error) {
+          console.error(`Error adding font ${file.name}:`, error);
+          alert(`Could not load ${file.name}. The file may be damaged.`);
+        }
+      }
+
+      setFonts((prev) => [...prev, ...added]);
+      return uploaded;
+    },
+    []
+  );
+
+  const removeFont = useCallback(async (id: string) => {
+    const font = fonts.find((stored) => stored.id === id);
+    if (!font) return;
+
+    try {
+      await deleteStoredFont(id);
+      unregisterFont(font.family);
+      setFonts((prev) => prev.filter((stored) => stored.id !== id));
+    } catch (error) {
+      console.error('Error removing font:', error);
+    }
+  }, [fonts]);
+
+  return { fonts, addFont, addFontFiles, removeFont };
+}
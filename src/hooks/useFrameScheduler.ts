@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Coalesce requests to run `callback` into at most one call per animation
+ * frame. The call always uses the latest callback, so only the newest state is
+ * drawn no matter how many requests arrived in between.
+ */
+export function useFrameScheduler(callback: () => void) {
+  const callbackRef = useRef(callback);
+  const frameRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    callbackRef.current = callback;
+  }, [callback]);
+
+  const request = useCallback(() => {
+    if (frameRef.current !== null) return;
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      callbackRef.current();
+    });
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current);
+      }
+    };
+  }, []);
+
+  return request;
+}
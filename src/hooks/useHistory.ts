@@ -0,0 +1,105 @@
+import { SetStateAction, useCallback, useState } from 'react';
+
+// Updates with the same coalesce key closer together than this become one entry
+const COALESCE_WINDOW_MS = 600;
+const DEFAULT_LIMIT = 100;
+
+export interface HistoryUpdateOptions<T> {
+  // Consecutive updates sharing a key (e.g. a drag or slider scrub) are merged.
+  // Can be derived from the previous and next value.
+  coalesceKey?: string | null | ((prev: T, next: T) => string | null);
+}
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastKey: string | null;
+  lastUpdate: number;
+}
+
+/**
+ * State with an undo/redo stack. Values must be treated as immutable: every
+ * update stores a reference to the previous value.
+ */
+export function useHistory<T>(initial: T | (() => T), limit: number = DEFAULT_LIMIT) {
+  const [history, setHistory] = useState<HistoryState<T>>(() => ({
+    past: [],
+    present: initial instanceof Function ? initial() : initial,
+    future: [],
+    lastKey: null,
+    lastUpdate: 0,
+  }));
+
+  const set = useCallback(
+    (action: SetStateAction<T>, options: HistoryUpdateOptions<T> = {}) => {
+      setHistory((prev) => {
+        const next = action instanceof Function ? action(prev.present) : action;
+        if (Object.is(next, prev.present)) return prev;
+
+        const now = Date.now();
+        const { coalesceKey } = options;
+        const key =
+          coalesceKey instanceof Function ? coalesceKey(prev.present, next) : coalesceKey ?? null;
+        const coalesce =
+          key !== null && key === prev.lastKey && now - prev.lastUpdate < COALESCE_WINDOW_MS;
+
+        return {
+          past: coalesce ? prev.past : [...prev.past, prev.present].slice(-limit),
+          present: next,
+          future: [],
+          lastKey: key,
+          lastUpdate: now,
+        };
+      });
+    },
+    [limit]
+  );
+
+  const undo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+        lastKey: null,
+        lastUpdate: 0,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.future.length === 0) return prev;
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1),
+        lastKey: null,
+        lastUpdate: 0,
+      };
+    });
+  }, []);
+
+  // Replace the state and forget all history, e.g. when opening a project
+  const reset = useCallback((action: SetStateAction<T>) => {
+    setHistory((prev) => ({
+      past: [],
+      present: action instanceof Function ? action(prev.present) : action,
+      future: [],
+      lastKey: null,
+      lastUpdate: 0,
+    }));
+  }, []);
+
+  return {
+    state: history.present,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  OfflineStatus,
+  cacheModelAssets,
+  checkModelAvailability,
+  registerServiceWorker,
+} from '../utils/offlineAssets';
+
+/**
+ * Whether the bundled model can be used offline, plus the connection state.
+ * `model` is null when detection doesn't use the bundled assets.
+ */
+export function useOfflineStatus(model: string | null) {
+  const [status, setStatus] = useState<OfflineStatus>('checking');
+  const [isOnline, setIsOnline] = useState(true);
+
+  useEffect(() => {
+    registerServiceWorker().catch((error) => console.error('Error registering service worker:', error));
+
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    updateOnline();
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!model) return;
+
+    let cancelled = false;
+    setStatus('checking');
+    checkModelAvailability(model)
+      .then((next) => {
+        if (!cancelled) setStatus(next);
+      })
+      .catch((error) => {
+        console.error('Error checking offline availability:', error);
+        if (!cancelled) setStatus('not-cached');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [model, isOnline]);
+
+  const makeAvailableOffline = useCallback(async () => {
+    if (!model) return;
+
+    setStatus('caching');
+    try {
+      await cacheModelAssets(model);
+      setStatus('ready');
+    } catch (error) {
+      console.error('Error caching model:', error);
+      setStatus(await checkModelAvailability(model).catch((): OfflineStatus => 'not-cached'));
+      alert('Could not save the model for offline use. Check your connection and try again.');
+    }
+  }, [model]);
+
+  return { status, isOnline, makeAvailableOffline };
+}
@@ -0,0 +1,80 @@
+import { zip } from 'fflate';
+import { DetectionProgress } from './foregroundDetection';
+import { ForegroundMask } from '../core/maskProcessing';
+import { TextLayer } from '../core/textLayers';
+
+export type BatchItemStatus = 'queued' | 'processing' | 'done' | 'error';
+
+/**
+ * One image in a batch, together with its detection result once available
+ */
+export interface BatchItem {
+  id: string;
+  file: File;
+  // Object URL of the file, owned by the queue
+  previewUrl: string;
+  status: BatchItemStatus;
+  progress: DetectionProgress | null;
+  error: string | null;
+  mask: ForegroundMask | null;
+  cutout: Blob | null;
+  // Layers customized for this image, or null to use the shared design
+  layers: TextLayer[] | null;
+}
+
+let batchCounter = 0;
+
+export function createBatchItem(file: File): BatchItem {
+  batchCounter += 1;
+  return {
+    id: `batch-${Date.now().toString(36)}-${batchCounter}`,
+    file,
+    previewUrl: URL.createObjectURL(file),
+    status: 'queued',
+    progress: null,
+    error: null,
+    mask: null,
+    cutout: null,
+    layers: null,
+  };
+}
+
+/**
+ * Decode an image file into an element that can be drawn and exported
+ */
+export function loadImageElement(file: Blob): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(file);
+  const image = new Image();
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image'));
+    image.src = url;
+  }).finally(() => URL.revokeObjectURL(url));
+}
+
+/**
+ * Bundle files into a zip, numbering duplicate names so none are overwritten
+ */
+export async function createZip(files: { name: string; blob: Blob }[]): Promise<Blob> {
+  const entries: Record<string, Uint8Array> = {};
+  for (const { name, blob } of files) {
+    entries[getUniqueName(name, entries)] = new Uint8Array(await blob.arrayBuffer());
+  }
+
+  // Exported images are already compressed
+  const zipped = await new Promise<Uint8Array>((resolve, reject) => {
+    zip(entries, { level: 0 }, (error, data) => (error ? reject(error) : resolve(data)));
+  });
+  return new Blob([zipped as BlobPart], { type: 'application/zip' });
+}
+
+function getUniqueName(name: string, taken: Record<string, unknown>): string {
+  if (!(name in taken)) return name;
+
+  const match = /^(.*?)(\.[^.]*)?$/.exec(name);
+  const base = match?.[1] ?? name;
+  const extension = match?.[2] ?? '';
+  let index = 2;
+  while (`${base}-${index}${extension}` in taken) index++;
+  return `${base}-${index}${extension}`;
+}
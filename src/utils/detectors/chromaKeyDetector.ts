@@ -0,0 +1,132 @@
+import {
+  DetectionError,
+  ForegroundDetector,
+  createDetectionResult,
+  decodeImage,
+  getImagePixels,
+  throwIfAborted,
+} from '../foregroundDetection';
+import { ImagePixels } from '../../core/compositor';
+import { ForegroundMask, createForegroundMask } from '../../core/maskProcessing';
+
+export interface ChromaKeySettings {
+  // Background color as #rrggbb, or null to sample it from the image corners
+  color: string | null;
+  // Color distance (0-255) within which pixels count as background
+  tolerance: number;
+  // Extra distance over which pixels fade from background to subject
+  softness: number;
+}
+
+export const DEFAULT_CHROMA_KEY_SETTINGS: ChromaKeySettings = {
+  color: null,
+  tolerance: 40,
+  softness: 30,
+};
+
+// Side of the square sampled in each corner when the color is automatic, as a
+// fraction of the shorter image side
+const CORNER_SAMPLE_FRACTION = 0.05;
+
+/**
+ * Detects the subject of studio shots against a green screen or other solid
+ * background, entirely locally
+ */
+export function createChromaKeyDetector(settings: ChromaKeySettings = DEFAULT_CHROMA_KEY_SETTINGS): ForegroundDetector {
+  return {
+    cacheKey: null,
+
+    async detect(image, options = {}) {
+      const { signal, onProgress } = options;
+      const bitmap = await decodeImage(image, signal);
+
+      try {
+        onProgress?.({ stage: 'inference', progress: 0 });
+        const mask = createChromaKeyMask(getImagePixels(bitmap), settings);
+        throwIfAborted(signal);
+
+        onProgress?.({ stage: 'mask-extraction', progress: 0 });
+        const result = await createDetectionResult(bitmap, mask);
+        onProgress?.({ stage: 'mask-extraction', progress: 1 });
+        return result;
+      } finally {
+        bitmap.close();
+      }
+    },
+  };
+}
+
+/**
+ * The subject mask of an image against a solid background
+ */
+export function createChromaKeyMask(pixels: ImagePixels, settings: ChromaKeySettings): ForegroundMask {
+  const key = settings.color ? parseHexColor(settings.color) : sampleCornerColor(pixels);
+  return keyMask(pixels, key, settings.tolerance, settings.softness);
+}
+
+/**
+ * Whether a key color is written as #rgb or #rrggbb
+ */
+export function isHexColor(color: string): boolean {
+  return /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(color);
+}
+
+function parseHexColor(color: string): [number, number, number] {
+  if (!isHexColor(color)) {
+    throw new DetectionError(`The key color "${color}" is not a #rgb or #rrggbb color.`);
+  }
+  let hex = color.slice(1);
+  if (hex.length === 3) {
+    hex = hex.replace(/./g, (digit) => digit + digit);
+  }
+  const value = parseInt(hex, 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+// Average of the four corners, which are background in a typical studio shot
+function sampleCornerColor(pixels: ImagePixels): [number, number, number] {
+  const { width, height, data } = pixels;
+  const size = Math.max(1, Math.round(Math.min(width, height) * CORNER_SAMPLE_FRACTION));
+  const corners = [
+    [0, 0],
+    [width - size, 0],
+    [0, height - size],
+    [width - size, height - size],
+  ];
+
+  const sum = [0, 0, 0];
+  let count = 0;
+  corners.forEach(([left, top]) => {
+    for (let y = top; y < top + size; y++) {
+      for (let x = left; x < left + size; x++) {
+        const i = (y * width + x) * 4;
+        sum[0] += data[i];
+        sum[1] += data[i + 1];
+        sum[2] += data[i + 2];
+        count++;
+      }
+    }
+  });
+
+  return [sum[0] / count, sum[1] / count, sum[2] / count];
+}
+
+/**
+ * Pixels close to the key color become background, with a linear ramp of
+ * `softness` beyond the tolerance for anti-aliased edges
+ */
+function keyMask(pixels: ImagePixels, key: [number, number, number], tolerance: number, softness: number) {
+  const { width, height, data } = pixels;
+  const mask = new Uint8ClampedArray(width * height);
+  const ramp = Math.max(1, softness);
+
+  for (let i = 0; i < mask.length; i++) {
+    const dr = data[i * 4] - key[0];
+    const dg = data[i * 4 + 1] - key[1];
+    const db = data[i * 4 + 2] - key[2];
+    const distance = Math.sqrt(dr * dr + dg * dg + db * db);
+    mask[i] = ((distance - tolerance) / ramp) * 255;
+  }
+
+  return createForegroundMask(mask, width, height);
+}
@@ -0,0 +1,103 @@
+import { DetectionError, ForegroundDetector } from '../foregroundDetection';
+import {
+  ChromaKeySettings,
+  DEFAULT_CHROMA_KEY_SETTINGS,
+  createChromaKeyDetector,
+  isHexColor,
+} from './chromaKeyDetector';
+import {
+  DEFAULT_IMGLY_SETTINGS,
+  IMGLY_DEVICE_OPTIONS,
+  IMGLY_MODEL_OPTIONS,
+  ImglySettings,
+  createImglyDetector,
+} from './imglyDetector';
+import { createMaskFileDetector } from './maskFileDetector';
+
+export type DetectionMethod = 'model' | 'chroma-key' | 'mask-file';
+
+export const DETECTION_METHODS: { value: DetectionMethod; label: string; description: string }[] = [
+  { value: 'model', label: 'AI model', description: 'Works on any photo; downloads the model on first use' },
+  { value: 'chroma-key', label: 'Solid background', description: 'Green screen or studio backdrop, no download' },
+  { value: 'mask-file', label: 'Mask image', description: 'Use a mask made elsewhere (white = subject)' },
+];
+
+export interface DetectorSettings {
+  method: DetectionMethod;
+  imgly: ImglySettings;
+  chromaKey: ChromaKeySettings;
+  // Not persisted
+  maskFile: File | null;
+}
+
+export const DEFAULT_DETECTOR_SETTINGS: DetectorSettings = {
+  method: 'model',
+  imgly: DEFAULT_IMGLY_SETTINGS,
+  chromaKey: DEFAULT_CHROMA_KEY_SETTINGS,
+  maskFile: null,
+};
+
+const STORAGE_KEY = 'detector-settings';
+
+/**
+ * Settings saved by this browser, falling back to the defaults for anything
+ * missing or invalid
+ */
+export function loadDetectorSettings(): DetectorSettings {
+  if (typeof window === 'undefined') return DEFAULT_DETECTOR_SETTINGS;
+
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (!saved || typeof saved !== 'object') return DEFAULT_DETECTOR_SETTINGS;
+
+    const imgly = { ...DEFAULT_IMGLY_SETTINGS, ...saved.imgly };
+    const chromaKey = { ...DEFAULT_CHROMA_KEY_SETTINGS, ...saved.chromaKey };
+    return {
+      // A mask file can't be restored, so neither can that method
+      method: saved.method === 'chroma-key' ? 'chroma-key' : 'model',
+      imgly: {
+        model: IMGLY_MODEL_OPTIONS.some((option) => option.value === imgly.model)
+          ? imgly.model
+          : DEFAULT_IMGLY_SETTINGS.model,
+        device: IMGLY_DEVICE_OPTIONS.some((option) => option.value === imgly.device)
+          ? imgly.device
+          : DEFAULT_IMGLY_SETTINGS.device,
+        publicPath: typeof imgly.publicPath === 'string' ? imgly.publicPath : DEFAULT_IMGLY_SETTINGS.publicPath,
+      },
+      chromaKey: {
+        color: typeof chromaKey.color === 'string' && isHexColor(chromaKey.color) ? chromaKey.color : null,
+        tolerance: toNumber(chromaKey.tolerance, DEFAULT_CHROMA_KEY_SETTINGS.tolerance),
+        softness: toNumber(chromaKey.softness, DEFAULT_CHROMA_KEY_SETTINGS.softness),
+      },
+      maskFile: null,
+    };
+  } catch {
+    return DEFAULT_DETECTOR_SETTINGS;
+  }
+}
+
+function toNumber(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+export function saveDetectorSettings(settings: DetectorSettings): void {
+  const { maskFile, ...persisted } = settings;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(persisted));
+}
+
+export function createDetector(settings: DetectorSettings): ForegroundDetector {
+  switch (settings.method) {
+    case 'chroma-key':
+      return createChromaKeyDetector(settings.chromaKey);
+    case 'mask-file':
+      if (!settings.maskFile) {
+        return {
+          cacheKey: null,
+          detect: () => Promise.reject(new DetectionError('Choose a mask image to use as the subject.')),
+        };
+      }
+      return createMaskFileDetector(settings.maskFile);
+    default:
+      return createImglyDetector(settings.imgly);
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { DetectionError, isAbortError } from '../foregroundDetection';
+import { createChromaKeyMask } from './chromaKeyDetector';
+import { createFakeDetector } from './fakeDetector';
+
+// A 4x1 image: two green background pixels, then two red subject pixels
+function greenAndRedPixels() {
+  const data = new Uint8ClampedArray([0, 255, 0, 255, 0, 255, 0, 255, 255, 0, 0, 255, 255, 0, 0, 255]);
+  return { data, width: 4, height: 1 };
+}
+
+describe('createChromaKeyMask', () => {
+  it('keys out the given color in long and short hex form', () => {
+    for (const color of ['#00ff00', '#0F0']) {
+      const mask = createChromaKeyMask(greenAndRedPixels(), { color, tolerance: 40, softness: 30 });
+      expect(Array.from(mask.data)).toEqual([0, 0, 255, 255]);
+    }
+  });
+
+  it('rejects colors that are not hex', () => {
+    for (const color of ['red', '#zzz', '#12345']) {
+      expect(() => createChromaKeyMask(greenAndRedPixels(), { color, tolerance: 40, softness: 30 })).toThrow(
+        DetectionError
+      );
+    }
+  });
+});
+
+describe('createFakeDetector', () => {
+  it('finds a subject in the middle and background in the corners', async () => {
+    const result = await createFakeDetector().detect(new Blob(['image']));
+    URL.revokeObjectURL(result.foregroundUrl);
+
+    const { data, width, height } = result.mask;
+    expect(data[Math.floor(height / 2) * width + Math.floor(width / 2)]).toBe(255);
+    expect(data[0]).toBe(0);
+    expect(data[width * height - 1]).toBe(0);
+  });
+
+  it('stops when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const error = await createFakeDetector()
+      .detect(new Blob(['image']), { signal: controller.signal })
+      .catch((caught) => caught);
+    expect(isAbortError(error)).toBe(true);
+  });
+});
@@ -0,0 +1,40 @@
+import { ForegroundDetector, throwIfAborted } from '../foregroundDetection';
+import { createForegroundMask } from '../../core/maskProcessing';
+
+const FAKE_MASK_SIZE = 256;
+
+/**
+ * Deterministic detector for tests and demos: the subject is always a soft
+ * ellipse in the middle of the frame. Needs no model, network or image
+ * decoding, so it also works where canvas isn't available; the mask is
+ * resampled to the render size like any other.
+ */
+export function createFakeDetector(): ForegroundDetector {
+  return {
+    cacheKey: null,
+
+    async detect(image, options = {}) {
+      const { signal, onProgress } = options;
+      throwIfAborted(signal);
+      onProgress?.({ stage: 'inference', progress: 0 });
+
+      const data = new Uint8ClampedArray(FAKE_MASK_SIZE * FAKE_MASK_SIZE);
+      const center = FAKE_MASK_SIZE / 2;
+      for (let y = 0; y < FAKE_MASK_SIZE; y++) {
+        for (let x = 0; x < FAKE_MASK_SIZE; x++) {
+          // Radii of 30% of the width and 40% of the height, edge 5% wide
+          const distance = Math.hypot((x + 0.5 - center) / 0.3, (y + 0.5 - center) / 0.4) / FAKE_MASK_SIZE;
+          data[y * FAKE_MASK_SIZE + x] = ((1 - distance) / 0.05) * 255;
+        }
+      }
+
+      onProgress?.({ stage: 'mask-extraction', progress: 1 });
+      // The cutout is only used for saving projects, so the source stands in for it
+      return {
+        mask: createForegroundMask(data, FAKE_MASK_SIZE, FAKE_MASK_SIZE),
+        cutout: image,
+        foregroundUrl: URL.createObjectURL(image),
+      };
+    },
+  };
+}
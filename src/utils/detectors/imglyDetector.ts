@@ -0,0 +1,196 @@
+import { Config, removeBackground } from '@imgly/background-removal';
+import {
+  DetectionError,
+  DetectionStage,
+  ForegroundDetector,
+  ModelLoadError,
+  OutOfMemoryError,
+  UnsupportedFormatError,
+  decodeImage,
+  isAbortError,
+  throwIfAborted,
+  withAbort,
+} from '../foregroundDetection';
+import { ForegroundMask, createForegroundMask } from '../../core/maskProcessing';
+import { BUNDLED_MODEL_PATH } from '../offlineAssets';
+
+export type ImglyModel = 'isnet' | 'isnet_fp16' | 'isnet_quint8';
+export type ImglyDevice = 'cpu' | 'gpu';
+
+export interface ImglySettings {
+  model: ImglyModel;
+  // GPU runs through WebGPU and falls back to the CPU where that fails
+  device: ImglyDevice;
+  // Where the model and wasm assets are served from; empty for the copy
+  // bundled with the app (see scripts/fetch-model-assets.mjs)
+  publicPath: string;
+}
+
+export const DEFAULT_IMGLY_SETTINGS: ImglySettings = {
+  model: 'isnet_fp16',
+  device: 'cpu',
+  publicPath: '',
+};
+
+export const IMGLY_MODEL_OPTIONS: { value: ImglyModel; label: string }[] = [
+  { value: 'isnet', label: 'Full (best edges, ~170 MB)' },
+  { value: 'isnet_fp16', label: 'Half precision (balanced, ~85 MB)' },
+  { value: 'isnet_quint8', label: 'Quantized (fastest, ~45 MB)' },
+];
+
+export const IMGLY_DEVICE_OPTIONS: { value: ImglyDevice; label: string }[] = [
+  { value: 'cpu', label: 'CPU' },
+  { value: 'gpu', label: 'GPU (WebGPU)' },
+];
+
+/**
+ * IMG.LY resolves assets with `new URL(name, publicPath)`, so the path must be
+ * absolute and end with a slash
+ */
+export function resolvePublicPath(publicPath: string): string {
+  const trimmed = publicPath.trim() || BUNDLED_MODEL_PATH;
+  const withSlash = trimmed.endsWith('/') ? trimmed : `${trimmed}/`;
+  return typeof window === 'undefined' ? withSlash : new URL(withSlash, window.location.href).toString();
+}
+
+/**
+ * Detects the subject with IMG.LY's in-browser background removal model
+ */
+export function createImglyDetector(settings: ImglySettings = DEFAULT_IMGLY_SETTINGS): ForegroundDetector {
+  const config: Config = {
+    model: settings.model,
+    device: settings.device,
+    publicPath: resolvePublicPath(settings.publicPath),
+    output: { format: 'image/png' },
+  };
+
+  return {
+    // The asset location doesn't change results, so it is left out of the key
+    cacheKey: `imgly:${settings.model}:${settings.device}`,
+
+    async detect(image, options = {}) {
+      const { signal, onProgress } = options;
+      throwIfAborted(signal);
+
+      (await decodeImage(image, signal)).close();
+
+      let stage: DetectionStage = 'model-download';
+      // Model assets download in parallel, so track each one to report the total
+      const downloads = new Map<string, { current: number; total: number }>();
+
+      const reportProgress = (key: string, current: number, total: number) => {
+        // Throwing from the callback stops IMG.LY at its next step
+        throwIfAborted(signal);
+
+        if (key.startsWith('fetch:')) {
+          downloads.set(key, { current, total });
+          let loaded = 0;
+          let size = 0;
+          downloads.forEach((download) => {
+            loaded += download.current;
+            size += download.total;
+          });
+          stage = 'model-download';
+          onProgress?.({ stage, progress: size > 0 ? loaded / size : 0 });
+        } else if (key.startsWith('compute:')) {
+          stage = 'inference';
+          onProgress?.({ stage, progress: total > 0 ? current / total : 0 });
+        }
+      };
+
+      const processingStartTime = performance.now();
+      onProgress?.({ stage, progress: 0 });
+
+      const run = (device: ImglyDevice) =>
+        withAbort(removeBackground(image, { ...config, device, progress: reportProgress }), signal);
+
+      let foregroundBlob: Blob;
+      try {
+        try {
+          foregroundBlob = await run(settings.device);
+        } catch (error) {
+          if (settings.device !== 'gpu' || isAbortError(error)) throw error;
+          console.warn('GPU background removal failed, falling back to the CPU:', error);
+          stage = 'model-download';
+          downloads.clear();
+          foregroundBlob = await run('cpu');
+        }
+      } catch (error) {
+        throw classifyError(error, stage);
+      }
+
+      console.log(`Background removal completed in ${(performance.now() - processingStartTime) / 1000}s`);
+
+      const foregroundUrl = URL.createObjectURL(foregroundBlob);
+      try {
+        throwIfAborted(signal);
+        onProgress?.({ stage: 'mask-extraction', progress: 0 });
+        const mask = await withAbort(createMaskFromForeground(foregroundUrl), signal);
+        onProgress?.({ stage: 'mask-extraction', progress: 1 });
+        return { mask, cutout: foregroundBlob, foregroundUrl };
+      } catch (error) {
+        URL.revokeObjectURL(foregroundUrl);
+        throw classifyError(error, 'mask-extraction');
+      }
+    },
+  };
+}
+
+// Map whatever the pipeline threw to one of the detection error types
+function classifyError(error: unknown, stage: DetectionStage): unknown {
+  if (isAbortError(error) || error instanceof DetectionError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof RangeError || /out of memory|allocation failed|bad_alloc|memory access/i.test(message)) {
+    return new OutOfMemoryError({ cause: error });
+  }
+  if (stage === 'model-download' || /fetch|network|resource/i.test(message)) {
+    return new ModelLoadError({ cause: error });
+  }
+  if (/decode|unsupported|format/i.test(message)) {
+    return new UnsupportedFormatError({ cause: error });
+  }
+  return new DetectionError('Error removing background. Please try a different image.', { cause: error });
+}
+
+/**
+ * Extract the alpha channel of a foreground image as a continuous mask, so soft
+ * edges like hair and motion blur keep their partial coverage
+ */
+async function createMaskFromForeground(foregroundUrl: string): Promise<ForegroundMask> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      // Create a canvas to process the image
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) {
+        reject(new Error('Could not get canvas context'));
+        return;
+      }
+
+      // Draw the image to the canvas
+      ctx.drawImage(img, 0, 0);
+
+      // Extract the alpha channel as the mask
+      const imgData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const data = imgData.data;
+      const mask = new Uint8ClampedArray(data.length / 4);
+
+      for (let i = 0; i < data.length; i += 4) {
+        mask[i / 4] = data[i + 3];
+      }
+
+      resolve(createForegroundMask(mask, canvas.width, canvas.height));
+    };
+
+    img.onerror = () => {
+      reject(new Error('Failed to load foreground image'));
+    };
+
+    img.src = foregroundUrl;
+  });
+}
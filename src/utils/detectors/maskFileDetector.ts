@@ -0,0 +1,95 @@
+import {
+  ForegroundDetector,
+  InvalidDimensionsError,
+  createDetectionResult,
+  decodeImage,
+  getImagePixels,
+  throwIfAborted,
+} from '../foregroundDetection';
+import { ImagePixels } from '../../core/compositor';
+import { ForegroundMask, createForegroundMask, resampleMask } from '../../core/maskProcessing';
+
+// How far a mask's aspect ratio may differ from the image's, as a fraction,
+// before it is assumed to belong to another image
+const MAX_ASPECT_DIFFERENCE = 0.02;
+
+/**
+ * Uses a mask image made elsewhere (e.g. in a photo editor) instead of
+ * detecting anything. Masks with transparency use their alpha channel,
+ * opaque ones their brightness (white = subject).
+ */
+export function createMaskFileDetector(maskFile: Blob): ForegroundDetector {
+  return {
+    cacheKey: null,
+
+    async detect(image, options = {}) {
+      const { signal, onProgress } = options;
+      const bitmap = await decodeImage(image, signal);
+
+      try {
+        onProgress?.({ stage: 'mask-extraction', progress: 0 });
+        const mask = await readMaskFile(maskFile, signal);
+        throwIfAborted(signal);
+
+        const result = await createDetectionResult(bitmap, fitMaskToImage(mask, bitmap.width, bitmap.height));
+        onProgress?.({ stage: 'mask-extraction', progress: 1 });
+        return result;
+      } finally {
+        bitmap.close();
+      }
+    },
+  };
+}
+
+/**
+ * Resample a mask to the image size, so masks exported at a different
+ * resolution still line up. Rejects masks with other proportions.
+ */
+export function fitMaskToImage(mask: ForegroundMask, width: number, height: number): ForegroundMask {
+  const maskAspect = mask.width / mask.height;
+  const imageAspect = width / height;
+  if (Math.abs(maskAspect - imageAspect) / imageAspect > MAX_ASPECT_DIFFERENCE) {
+    throw new InvalidDimensionsError(
+      `The mask is ${mask.width}x${mask.height}, which doesn't match the proportions of the ${width}x${height} image.`
+    );
+  }
+  return resampleMask(mask, width, height);
+}
+
+/**
+ * Decode a mask image into foreground coverage
+ */
+export async function readMaskFile(maskFile: Blob, signal?: AbortSignal): Promise<ForegroundMask> {
+  const bitmap = await decodeImage(maskFile, signal);
+  try {
+    return createMaskFromPixels(getImagePixels(bitmap));
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Foreground coverage of a mask image: its alpha channel if it has
+ * transparency, otherwise its brightness
+ */
+export function createMaskFromPixels(pixels: ImagePixels): ForegroundMask {
+  const { data, width, height } = pixels;
+  const mask = new Uint8ClampedArray(width * height);
+
+  let hasAlpha = false;
+  for (let i = 0; i < mask.length; i++) {
+    if (data[i * 4 + 3] < 255) {
+      hasAlpha = true;
+      break;
+    }
+  }
+
+  for (let i = 0; i < mask.length; i++) {
+    const offset = i * 4;
+    mask[i] = hasAlpha
+      ? data[offset + 3]
+      : 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+  }
+
+  return createForegroundMask(mask, width, height);
+}
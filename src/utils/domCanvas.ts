@@ -0,0 +1,41 @@
+import { CanvasFactory, setCanvasFactory } from '../core/canvasFactory';
+
+/**
+ * DOM canvases and images for the compositing core
+ */
+export const domCanvasFactory: CanvasFactory = {
+  createCanvas: (width, height) => createDomCanvas(width, height).canvas,
+
+  loadImage(src) {
+    return new Promise((resolve, reject) => {
+      const image = new Image();
+      image.onload = () => resolve(image);
+      image.onerror = () => reject(new Error('Failed to load image'));
+      image.src = src;
+    });
+  },
+};
+
+// Installed on import in the browser. Pages rendered on the server never draw,
+// and the server render installs Node canvases instead.
+if (typeof document !== 'undefined') {
+  setCanvasFactory(domCanvasFactory);
+}
+
+/**
+ * Create a detached DOM canvas and its 2d context, for browser code that needs
+ * DOM-only canvas methods such as toDataURL
+ */
+export function createDomCanvas(
+  width: number,
+  height: number
+): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+  return { canvas, ctx };
+}
@@ -0,0 +1,249 @@
+import { Canvas } from '../core/canvasFactory';
+import { getMaskImage, renderComposition } from '../core/compositor';
+import { ForegroundMask, MaskRefinement } from '../core/maskProcessing';
+import { TextSettings } from '../core/textLayers';
+import { createDomCanvas } from './domCanvas';
+
+// Multipliers of the original image resolution
+export const EXPORT_SCALES = [0.5, 1, 2] as const;
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { label: string; mimeType: string; extension: string; lossy: boolean; supportsAlpha: boolean }
+> = {
+  png: { label: 'PNG', mimeType: 'image/png', extension: 'png', lossy: false, supportsAlpha: true },
+  jpeg: { label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', lossy: true, supportsAlpha: false },
+  webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp', lossy: true, supportsAlpha: true },
+};
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // 0-1, only used by lossy formats
+  quality: number;
+  scale: number;
+  transparentBackground: boolean;
+  // Supports {name}, {width}, {height} and {scale}; the extension is added from the format
+  filenameTemplate: string;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'png',
+  quality: 0.92,
+  scale: 1,
+  transparentBackground: false,
+  filenameTemplate: '{name}-overlay',
+};
+
+// Browsers refuse to allocate canvases much larger than this per side
+const MAX_EXPORT_DIMENSION = 16384;
+// Largest side of the editing preview; layer pixel sizes are relative to it
+const PREVIEW_MAX_DIMENSION = 1200;
+
+export interface ExportSource {
+  image: HTMLImageElement;
+  mask: ForegroundMask;
+  layers: TextSettings[];
+  // Mask refinement in preview pixels
+  maskRefinement: MaskRefinement;
+  // Size of the preview canvas the layers were designed on
+  previewWidth: number;
+  previewHeight: number;
+}
+
+/**
+ * Size of the preview canvas for an image, scaled down to keep editing fast
+ */
+export function getPreviewSize(imageWidth: number, imageHeight: number): { width: number; height: number } {
+  const largest = Math.max(imageWidth, imageHeight);
+  const ratio = largest > PREVIEW_MAX_DIMENSION ? PREVIEW_MAX_DIMENSION / largest : 1;
+  return {
+    width: Math.max(1, Math.floor(imageWidth * ratio)),
+    height: Math.max(1, Math.floor(imageHeight * ratio)),
+  };
+}
+
+/**
+ * Size of an export at a multiplier of the original image resolution, clamped
+ * to what a canvas can hold, and optionally to a pixel count, while keeping
+ * the aspect ratio
+ */
+export function getExportSize(
+  imageWidth: number,
+  imageHeight: number,
+  scale: number,
+  maxPixels: number = Infinity
+): { width: number; height: number } {
+  let width = Math.max(1, Math.round(imageWidth * scale));
+  let height = Math.max(1, Math.round(imageHeight * scale));
+
+  const ratio = Math.min(
+    1,
+    MAX_EXPORT_DIMENSION / Math.max(width, height),
+    Math.sqrt(maxPixels / (width * height))
+  );
+  if (ratio < 1) {
+    width = Math.max(1, Math.floor(width * ratio));
+    height = Math.max(1, Math.floor(height * ratio));
+  }
+
+  return { width, height };
+}
+
+/**
+ * Render the composition offscreen at the given size. Text sizes and mask
+ * refinement are scaled from the preview so the result matches it.
+ */
+export function renderExportCanvas(
+  source: ExportSource,
+  width: number,
+  height: number,
+  transparentBackground: boolean = false
+): Canvas {
+  const textScale = width / source.previewWidth;
+  const refinement = {
+    feather: source.maskRefinement.feather * textScale,
+    choke: source.maskRefinement.choke * textScale,
+  };
+
+  return renderComposition(source.image, source.mask, source.layers, {
+    width,
+    height,
+    textScale,
+    maskRefinement: refinement,
+    transparentBackground,
+  });
+}
+
+/**
+ * The mask as an opaque grayscale image, white where the subject is, scaled to
+ * the given size
+ */
+export function renderMaskCanvas(mask: ForegroundMask, width: number, height: number): HTMLCanvasElement {
+  const { canvas, ctx } = createDomCanvas(width, height);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.drawImage(getMaskImage(mask), 0, 0, width, height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+  return canvas;
+}
+
+/**
+ * The subject cut out of the source image on a transparent background, at
+ * the source resolution
+ */
+export function renderCutoutCanvas(image: HTMLImageElement, mask: ForegroundMask): HTMLCanvasElement {
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+  const { canvas, ctx } = createDomCanvas(width, height);
+  ctx.drawImage(image, 0, 0, width, height);
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.drawImage(getMaskImage(mask), 0, 0, width, height);
+  return canvas;
+}
+
+/**
+ * Render and encode the composition with the given export options, returning
+ * the file and its download name
+ */
+export async function exportComposition(
+  source: ExportSource,
+  options: ExportOptions,
+  sourceName: string
+): Promise<{ blob: Blob; filename: string }> {
+  const { width, height } = getExportSize(source.image.naturalWidth, source.image.naturalHeight, options.scale);
+  const format = EXPORT_FORMATS[options.format];
+
+  const canvas = renderExportCanvas(source, width, height, format.supportsAlpha && options.transparentBackground);
+  const blob = await canvasToBlob(canvas, format.mimeType, format.lossy ? options.quality : undefined);
+  const filename = buildExportFilename(
+    options.filenameTemplate,
+    { name: sourceName, width, height, scale: options.scale },
+    options.format
+  );
+  return { blob, filename };
+}
+
+/**
+ * Encode a canvas to a Blob, rejecting if the browser cannot produce one
+ */
+export function canvasToBlob(canvas: Canvas, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    // Canvases in the browser come from the DOM canvas factory
+    (canvas as HTMLCanvasElement).toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Could not encode image'));
+        }
+      },
+      type,
+      quality
+    );
+  });
+}
+
+/**
+ * Trigger a browser download of a Blob
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Build a download filename from a template such as `{name}-overlay`
+ */
+export function buildExportFilename(
+  template: string,
+  values: { name: string; width: number; height: number; scale: number },
+  format: ExportFormat
+): string {
+  const baseName = values.name.replace(/\.[^.]+$/, '') || 'overlay-image';
+  const filled = template
+    .replace(/\{name\}/g, baseName)
+    .replace(/\{width\}/g, String(values.width))
+    .replace(/\{height\}/g, String(values.height))
+    .replace(/\{scale\}/g, `${values.scale}x`);
+
+  // Strip characters that are not allowed in filenames on common systems
+  const safe = filled.replace(/[\\/:*?"<>|]+/g, '-').trim() || 'overlay-image';
+  return `${safe}.${EXPORT_FORMATS[format].extension}`;
+}
+
+/**
+ * Estimate the encoded size of an export by encoding the preview-sized render
+ * and scaling by the pixel count
+ */
+export async function estimateExportSize(
+  source: ExportSource,
+  options: ExportOptions,
+  exportWidth: number,
+  exportHeight: number
+): Promise<number> {
+  const { previewWidth, previewHeight } = source;
+  const { mimeType, lossy, supportsAlpha } = EXPORT_FORMATS[options.format];
+  // Same background handling as the real export
+  const canvas = renderExportCanvas(source, previewWidth, previewHeight, supportsAlpha && options.transparentBackground);
+  const blob = await canvasToBlob(canvas, mimeType, lossy ? options.quality : undefined);
+  return blob.size * ((exportWidth * exportHeight) / (previewWidth * previewHeight));
+}
+
+/**
+ * Format a byte count for display, e.g. 1.4 MB
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${Math.round(bytes)} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,167 @@
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+import { TextSettings } from '../core/textLayers';
+import { getFontString } from '../core/textRendering';
+
+export const FONT_FILE_EXTENSIONS = ['.ttf', '.otf', '.woff', '.woff2'];
+
+const DB_NAME = 'overlay-fonts';
+const DB_VERSION = 1;
+const STORE_NAME = 'fonts';
+
+/**
+ * A font file together with the family name it is registered under
+ */
+export interface FontAsset {
+  family: string;
+  fileName: string;
+  data: ArrayBuffer;
+}
+
+export interface StoredFont extends FontAsset {
+  id: string;
+  addedAt: number;
+}
+
+const registeredFamilies = new Map<string, FontFace>();
+
+export function isFontFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return FONT_FILE_EXTENSIONS.some((extension) => name.endsWith(extension));
+}
+
+/**
+ * Turn a file name into a readable family name, unique among the existing
+ * families
+ */
+export function familyFromFileName(fileName: string, existingFamilies: string[]): string {
+  let base = fileName
+    .replace(/\.[^.]+$/, '')
+    .replace(/[^A-Za-z0-9 -]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!base || /^[0-9-]/.test(base)) {
+    base = `Font ${base}`.trim();
+  }
+
+  return uniqueFamilyName(base, existingFamilies);
+}
+
+/**
+ * A family name unique among the existing families, made by numbering the
+ * name when it is taken: "Inter 2.0" becomes "Inter 2.0 (2)"
+ */
+export function uniqueFamilyName(family: string, existingFamilies: string[]): string {
+  let unique = family;
+  let suffix = 2;
+  while (existingFamilies.includes(unique)) {
+    unique = `${family} (${suffix})`;
+    suffix += 1;
+  }
+  return unique;
+}
+
+/**
+ * Whether two fonts are the same file, whatever they are named
+ */
+export function isSameFontData(a: ArrayBuffer, b: ArrayBuffer): boolean {
+  if (a.byteLength !== b.byteLength) return false;
+  const bytesA = new Uint8Array(a);
+  const bytesB = new Uint8Array(b);
+  for (let i = 0; i < bytesA.length; i++) {
+    if (bytesA[i] !== bytesB[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Register a font with the document so canvas and CSS can use it
+ */
+export async function registerFont(font: FontAsset): Promise<void> {
+  if (registeredFamilies.has(font.family)) return;
+
+  // FontFace takes ownership of the buffer, so hand it a copy
+  const face = new FontFace(font.family, font.data.slice(0));
+  await face.load();
+  document.fonts.add(face);
+  registeredFamilies.set(font.family, face);
+}
+
+export function unregisterFont(family: string): void {
+  const face = registeredFamilies.get(family);
+  if (!face) return;
+  document.fonts.delete(face);
+  registeredFamilies.delete(family);
+}
+
+export async function listStoredFonts(): Promise<StoredFont[]> {
+  const db = await openDatabase(DB_NAME, DB_VERSION, [STORE_NAME]);
+  try {
+    const fonts = await requestToPromise(
+      db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll() as IDBRequest<StoredFont[]>
+    );
+    return fonts.sort((a, b) => a.addedAt - b.addedAt);
+  } finally {
+    db.close();
+  }
+}
+
+export async function storeFont(font: FontAsset): Promise<StoredFont> {
+  const stored: StoredFont = {
+    ...font,
+    id: `font-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    addedAt: Date.now(),
+  };
+
+  const db = await openDatabase(DB_NAME, DB_VERSION, [STORE_NAME]);
+  try {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(stored);
+    await transactionDone(transaction);
+    return stored;
+  } finally {
+    db.close();
+  }
+}
+
+export async function deleteStoredFont(id: string): Promise<void> {
+  const db = await openDatabase(DB_NAME, DB_VERSION, [STORE_NAME]);
+  try {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).delete(id);
+    await transactionDone(transaction);
+  } finally {
+    db.close();
+  }
+}
+
+function getLayerFontStrings(layers: TextSettings[]): string[] {
+  return Array.from(new Set(layers.map((layer) => getFontString(layer, layer.size))));
+}
+
+/**
+ * Whether every font used by the layers can be drawn right now
+ */
+export function areLayerFontsReady(layers: TextSettings[]): boolean {
+  if (typeof document === 'undefined' || !document.fonts) return true;
+  return getLayerFontStrings(layers).every((font) => document.fonts.check(font));
+}
+
+/**
+ * Resolve once every font used by the layers has loaded (or failed to)
+ */
+export async function waitForLayerFonts(layers: TextSettings[]): Promise<void> {
+  if (typeof document === 'undefined' || !document.fonts) return;
+  await Promise.all(
+    getLayerFontStrings(layers).map((font) =>
+      document.fonts.load(font).catch((error) => console.error(`Error loading font ${font}:`, error))
+    )
+  );
+}
+
+/**
+ * Library fonts referenced by any of the layers
+ */
+export function getUsedFonts<T extends FontAsset>(layers: TextSettings[], library: T[]): T[] {
+  const families = new Set(layers.map((layer) => layer.font));
+  return library.filter((font) => families.has(font.family));
+}
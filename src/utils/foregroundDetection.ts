@@ -1,127 +1,186 @@
-import { removeBackground } from '@imgly/background-removal';
-
-interface TextSettings {
-  content: string;
-  font: string;
-  size: number;
-  color: string;
-  x: number;
-  y: number;
+import { ForegroundMask } from '../core/maskProcessing';
+
+// Larger inputs exhaust browser memory during inference
+export const MAX_DETECTION_DIMENSION = 8192;
+
+export type DetectionStage = 'model-download' | 'inference' | 'mask-extraction';
+
+export const DETECTION_STAGE_LABELS: Record<DetectionStage, string> = {
+  'model-download': 'Downloading model',
+  inference: 'Detecting subject',
+  'mask-extraction': 'Extracting mask',
+};
+
+export interface DetectionProgress {
+  stage: DetectionStage;
+  // Progress within the stage, 0-1
+  progress: number;
+}
+
+export interface DetectionOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: DetectionProgress) => void;
+}
+
+export interface DetectionResult {
+  // Foreground alpha at the resolution of the source image
+  mask: ForegroundMask;
+  // The subject on a transparent background
+  cutout: Blob;
+  // Object URL of the cutout; owned by the caller
+  foregroundUrl: string;
 }
 
-interface DetectionResult {
-  mask: Uint8ClampedArray;
-  foregroundUrl?: string;
+export class DetectionError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'DetectionError';
+  }
+}
+
+export class UnsupportedFormatError extends DetectionError {
+  constructor(options?: ErrorOptions) {
+    super('This image format is not supported. Please use a PNG, JPEG or WebP image.', options);
+    this.name = 'UnsupportedFormatError';
+  }
+}
+
+export class ModelLoadError extends DetectionError {
+  constructor(options?: ErrorOptions) {
+    super('The background removal model could not be loaded. Check your connection and try again.', options);
+    this.name = 'ModelLoadError';
+  }
+}
+
+export class OutOfMemoryError extends DetectionError {
+  constructor(options?: ErrorOptions) {
+    super('Ran out of memory while removing the background. Try a smaller image.', options);
+    this.name = 'OutOfMemoryError';
+  }
+}
+
+export class InvalidDimensionsError extends DetectionError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'InvalidDimensionsError';
+  }
 }
 
 /**
- * Detects the foreground of an image using IMG.LY's background removal API
- * and places text behind it.
- * 
- * @param image The source image (as HTMLImageElement, Blob, or File)
- * @param textSettings Settings for text rendering
- * @param returnMaskOnly If true, only generate the mask without rendering text
- * @param progressCallback Optional callback for tracking progress
- * @returns Promise resolving to DetectionResult containing the foreground mask and URL
+ * Whether an error comes from cancelling a detection through its AbortSignal
  */
-export async function detectForeground(
-  image: HTMLImageElement | string | Blob | File,
-  textSettings?: TextSettings,
-  returnMaskOnly: boolean = false,
-  progressCallback?: (progress: number) => void
-): Promise<DetectionResult> {
-  try {
-    // Process with IMG.LY background removal
-    const processingStartTime = performance.now();
-    console.log('Starting background removal...');
-    
-    // Get the foreground image with transparent background
-    const foregroundBlob = await removeBackground(image, {
-      // The progress callback in IMG.LY's API expects a function with different parameters
-      // than what TypeScript is inferring. Using the 'any' type to bypass type checking for this callback.
-      progress: (progress: any, ...args: any[]) => {
-        // Ensure progress is treated as a number between 0-1
-        const progressValue = typeof progress === 'number' ? progress : 
-                             (typeof args[0] === 'number' ? args[0] : 0);
-        
-        const progressPercent = Math.round(progressValue * 100);
-        console.log(`Background removal progress: ${progressPercent}%`);
-        if (progressCallback) {
-          progressCallback(progressPercent);
-        }
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * A way of finding the subject of an image. Implementations reject with a
+ * DetectionError subclass describing what went wrong, or with an AbortError
+ * (see isAbortError) when the signal is aborted.
+ */
+export interface ForegroundDetector {
+  // Identifies the detector and its settings in cache keys; null disables
+  // caching for detectors that are cheap to re-run
+  cacheKey: string | null;
+  detect(image: Blob, options?: DetectionOptions): Promise<DetectionResult>;
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new DOMException('Detection was cancelled', 'AbortError');
+  }
+}
+
+/**
+ * Reject as soon as the signal fires, even if the work itself can't be interrupted
+ */
+export function withAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  throwIfAborted(signal);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new DOMException('Detection was cancelled', 'AbortError'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
       },
-    });
-
-    console.log(`Background removal completed in ${(performance.now() - processingStartTime) / 1000}s`);
-
-    // Create a URL for the foreground image
-    const foregroundUrl = URL.createObjectURL(foregroundBlob);
-    
-    // Create mask data from the foreground image
-    const maskData = await createMaskFromForeground(foregroundUrl);
-    
-    if (returnMaskOnly) {
-      return { 
-        mask: maskData.mask,
-        foregroundUrl
-      };
-    }
-    
-    // If textSettings is provided, handle rendering
-    if (textSettings) {
-      // Text rendering will be handled in the component
-      // This approach keeps this function focused on background removal
-    }
-    
-    return { 
-      mask: maskData.mask,
-      foregroundUrl
-    };
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Decode an image, checking it has a size detection can handle. The caller
+ * must close the returned bitmap.
+ */
+export async function decodeImage(image: Blob, signal?: AbortSignal): Promise<ImageBitmap> {
+  if (image.type && !image.type.startsWith('image/')) {
+    throw new UnsupportedFormatError();
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await withAbort(createImageBitmap(image), signal);
   } catch (error) {
-    console.error('Error in detectForeground:', error);
-    return { mask: new Uint8ClampedArray(0) };
+    if (isAbortError(error)) throw error;
+    throw new UnsupportedFormatError({ cause: error });
   }
+
+  const { width, height } = bitmap;
+  if (width === 0 || height === 0) {
+    bitmap.close();
+    throw new InvalidDimensionsError('The image has no pixels.');
+  }
+  if (width > MAX_DETECTION_DIMENSION || height > MAX_DETECTION_DIMENSION) {
+    bitmap.close();
+    throw new InvalidDimensionsError(
+      `The image is ${width}x${height}; background removal supports up to ${MAX_DETECTION_DIMENSION}px per side.`
+    );
+  }
+  return bitmap;
 }
 
 /**
- * Convert a foreground image with alpha channel to a binary mask
+ * Pixels of a decoded image, for detectors that work on colors directly
  */
-async function createMaskFromForeground(foregroundUrl: string): Promise<{mask: Uint8ClampedArray}> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => {
-      // Create a canvas to process the image
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      
-      const ctx = canvas.getContext('2d', { willReadFrequently: true });
-      if (!ctx) {
-        reject(new Error('Could not get canvas context'));
-        return;
-      }
-      
-      // Draw the image to the canvas
-      ctx.drawImage(img, 0, 0);
-      
-      // Extract the alpha channel as a binary mask
-      const imgData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const data = imgData.data;
-      const mask = new Uint8ClampedArray(data.length / 4);
-      
-      // Convert alpha values to binary mask (255 for foreground, 0 for background)
-      for (let i = 0; i < data.length; i += 4) {
-        const alpha = data[i + 3];
-        mask[i / 4] = alpha > 128 ? 255 : 0;
-      }
-      
-      resolve({ mask });
-    };
-    
-    img.onerror = () => {
-      reject(new Error('Failed to load foreground image'));
-    };
-    
-    img.src = foregroundUrl;
+export function getImagePixels(bitmap: ImageBitmap): ImageData {
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  return ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+}
+
+/**
+ * Build a detection result from a mask by cutting the subject out of the
+ * source image. The mask must be at the size of the bitmap.
+ */
+export async function createDetectionResult(bitmap: ImageBitmap, mask: ForegroundMask): Promise<DetectionResult> {
+  const pixels = getImagePixels(bitmap);
+  for (let i = 0; i < mask.data.length; i++) {
+    pixels.data[i * 4 + 3] = mask.data[i];
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = pixels.width;
+  canvas.height = pixels.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+  ctx.putImageData(pixels, 0, 0);
+
+  const cutout = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new OutOfMemoryError())), 'image/png');
   });
-}
\ No newline at end of file
+  return { mask, cutout, foregroundUrl: URL.createObjectURL(cutout) };
+}
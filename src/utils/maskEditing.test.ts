@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { ForegroundMask, createForegroundMask } from '../core/maskProcessing';
+import { BrushStroke, MaskEdit, applyMaskEdits, updateStrokePreview } from './maskEditing';
+
+const SIZE = 40;
+
+function emptyMask(): ForegroundMask {
+  return createForegroundMask(new Uint8ClampedArray(SIZE * SIZE), SIZE, SIZE);
+}
+
+function fullMask(): ForegroundMask {
+  return createForegroundMask(new Uint8ClampedArray(SIZE * SIZE).fill(255), SIZE, SIZE);
+}
+
+// A stroke with a radius of 5 mask pixels
+function brush(mode: 'add' | 'erase', points: [number, number][], hardness = 1): BrushStroke {
+  return {
+    type: 'brush',
+    mode,
+    points: points.map(([x, y]) => ({ x: x / SIZE, y: y / SIZE })),
+    radius: 5 / SIZE,
+    hardness,
+  };
+}
+
+const at = (mask: ForegroundMask, x: number, y: number) => mask.data[y * mask.width + x];
+
+describe('applyMaskEdits', () => {
+  it('paints a hard dab inside the radius only', () => {
+    const mask = applyMaskEdits(emptyMask(), [brush('add', [[20, 20]])], null);
+
+    expect(at(mask, 20, 20)).toBe(255);
+    expect(at(mask, 23, 20)).toBe(255);
+    expect(at(mask, 26, 20)).toBe(0);
+    expect(at(mask, 20, 26)).toBe(0);
+  });
+
+  it('fades a soft dab towards its edge', () => {
+    const mask = applyMaskEdits(emptyMask(), [brush('add', [[20, 20]], 0)], null);
+
+    expect(at(mask, 20, 20)).toBeGreaterThan(at(mask, 22, 20));
+    expect(at(mask, 22, 20)).toBeGreaterThan(at(mask, 23, 20));
+    expect(at(mask, 23, 20)).toBeGreaterThan(0);
+    expect(at(mask, 23, 20)).toBeLessThan(255);
+  });
+
+  it('does not build up where dabs of one stroke overlap', () => {
+    const single = applyMaskEdits(emptyMask(), [brush('add', [[20, 20]], 0)], null);
+    const repeated = applyMaskEdits(emptyMask(), [brush('add', [[20, 20], [20, 20], [20, 20]], 0)], null);
+
+    expect(Array.from(repeated.data)).toEqual(Array.from(single.data));
+  });
+
+  it('covers the path between points and erases along it', () => {
+    const mask = applyMaskEdits(fullMask(), [brush('erase', [[5, 20], [35, 20]])], null);
+
+    for (let x = 5; x <= 35; x++) {
+      expect(at(mask, x, 20)).toBe(0);
+    }
+    expect(at(mask, 20, 10)).toBe(255);
+  });
+
+  it('leaves the input mask alone so earlier states can be restored', () => {
+    const base = emptyMask();
+    const first = brush('add', [[10, 10]]);
+    const second = brush('add', [[30, 30]]);
+
+    const edited = applyMaskEdits(base, [first, second], null);
+    expect(base.data.every((value) => value === 0)).toBe(true);
+
+    // Undo drops the last edit and applies the rest to the base again
+    const undone = applyMaskEdits(base, [first], null);
+    expect(at(undone, 10, 10)).toBe(255);
+    expect(at(undone, 30, 30)).toBe(0);
+    expect(at(edited, 30, 30)).toBe(255);
+  });
+
+  it('gives the same mask when edits are applied one at a time', () => {
+    const edits: MaskEdit[] = [brush('add', [[10, 10], [30, 10]], 0.5), brush('erase', [[20, 10]], 0.2)];
+    const all = applyMaskEdits(emptyMask(), edits, null);
+    const stepwise = applyMaskEdits(applyMaskEdits(emptyMask(), [edits[0]], null), [edits[1]], null);
+
+    expect(Array.from(stepwise.data)).toEqual(Array.from(all.data));
+  });
+
+  it('fills connected pixels of a similar color with the wand', () => {
+    // Left half black, right half white
+    const pixels = { data: new Uint8ClampedArray(SIZE * SIZE * 4), width: SIZE, height: SIZE };
+    for (let i = 0; i < SIZE * SIZE; i++) {
+      const value = i % SIZE < SIZE / 2 ? 0 : 255;
+      pixels.data.fill(value, i * 4, i * 4 + 3);
+      pixels.data[i * 4 + 3] = 255;
+    }
+
+    const mask = applyMaskEdits(emptyMask(), [{ type: 'wand', mode: 'add', x: 0.1, y: 0.5, tolerance: 10 }], pixels);
+    expect(at(mask, 0, 0)).toBe(255);
+    expect(at(mask, SIZE / 2 - 1, SIZE - 1)).toBe(255);
+    expect(at(mask, SIZE / 2, 0)).toBe(0);
+  });
+});
+
+describe('updateStrokePreview', () => {
+  it('matches the finished stroke as points are added', () => {
+    const base = applyMaskEdits(emptyMask(), [brush('add', [[8, 8]])], null);
+    const stroke = brush('erase', [[5, 5]], 0.3);
+    const path: [number, number][] = [
+      [12, 9],
+      [20, 20],
+      [34, 22],
+      [30, 35],
+    ];
+
+    let preview = updateStrokePreview(null, base, stroke);
+    for (const [x, y] of path) {
+      stroke.points.push({ x: x / SIZE, y: y / SIZE });
+      preview = updateStrokePreview(preview, base, stroke);
+      expect(Array.from(preview.mask.data)).toEqual(Array.from(applyMaskEdits(base, [stroke], null).data));
+    }
+  });
+
+  it('returns the same mask until the stroke changes', () => {
+    const base = emptyMask();
+    const stroke = brush('add', [[20, 20]]);
+    const preview = updateStrokePreview(null, base, stroke);
+
+    expect(updateStrokePreview(preview, base, stroke).mask).toBe(preview.mask);
+    stroke.points.push({ x: 0.6, y: 0.5 });
+    expect(updateStrokePreview(preview, base, stroke).mask).not.toBe(preview.mask);
+    expect(base.data.every((value) => value === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,289 @@
+import { ForegroundMask } from '../core/maskProcessing';
+
+export type MaskTool = 'none' | 'brush' | 'wand';
+export type MaskEditMode = 'add' | 'erase';
+
+export interface MaskToolSettings {
+  tool: MaskTool;
+  mode: MaskEditMode;
+  // Brush radius in preview pixels
+  size: number;
+  // 0 = soft edge over the whole radius, 1 = hard edge
+  hardness: number;
+  // Color distance (0-255) a pixel may be from the clicked one to be filled
+  tolerance: number;
+}
+
+export const DEFAULT_MASK_TOOL_SETTINGS: MaskToolSettings = {
+  tool: 'none',
+  mode: 'add',
+  size: 20,
+  hardness: 0.7,
+  tolerance: 32,
+};
+
+/**
+ * A brush stroke, in coordinates relative to the image (0-1) so it applies at
+ * any mask resolution
+ */
+export interface BrushStroke {
+  type: 'brush';
+  mode: MaskEditMode;
+  points: { x: number; y: number }[];
+  // Fraction of the image width
+  radius: number;
+  hardness: number;
+}
+
+/**
+ * A flood fill of similarly colored pixels, starting at a point (0-1)
+ */
+export interface WandFill {
+  type: 'wand';
+  mode: MaskEditMode;
+  x: number;
+  y: number;
+  tolerance: number;
+}
+
+export type MaskEdit = BrushStroke | WandFill;
+
+// Source image pixels at mask resolution, needed by the magic wand
+export interface MaskPixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/**
+ * Apply edits on top of a mask, returning a new mask
+ */
+export function applyMaskEdits(mask: ForegroundMask, edits: MaskEdit[], pixels: MaskPixels | null): ForegroundMask {
+  if (edits.length === 0) return mask;
+
+  const data = new Uint8ClampedArray(mask.data);
+  const edited = { data, width: mask.width, height: mask.height };
+  edits.forEach((edit) => {
+    if (edit.type === 'brush') {
+      paintStroke(edited, edit);
+    } else if (pixels) {
+      floodFill(edited, edit, pixels);
+    }
+  });
+  return edited;
+}
+
+// Per-pixel brush coverage (0-255) over a rectangle of the mask
+interface Coverage {
+  data: Uint8ClampedArray;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// A stroke in mask pixels
+interface StrokeShape {
+  points: { x: number; y: number }[];
+  radius: number;
+  hardRadius: number;
+}
+
+function getStrokeShape(mask: ForegroundMask, stroke: BrushStroke): StrokeShape {
+  const radius = Math.max(0.5, stroke.radius * mask.width);
+  return {
+    points: stroke.points.map((point) => ({ x: point.x * mask.width, y: point.y * mask.height })),
+    radius,
+    hardRadius: radius * Math.max(0, Math.min(1, stroke.hardness)),
+  };
+}
+
+// Box around the stroke from the given point on, clamped to the mask, or
+// null when it is empty
+function getStrokeBounds(
+  mask: ForegroundMask,
+  { points, radius }: StrokeShape,
+  from: number
+): { left: number; top: number; right: number; bottom: number } | null {
+  const bounds = points.slice(from).reduce(
+    (box, point) => ({
+      minX: Math.min(box.minX, point.x),
+      minY: Math.min(box.minY, point.y),
+      maxX: Math.max(box.maxX, point.x),
+      maxY: Math.max(box.maxY, point.y),
+    }),
+    { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+  );
+  const left = Math.max(0, Math.floor(bounds.minX - radius));
+  const top = Math.max(0, Math.floor(bounds.minY - radius));
+  const right = Math.min(mask.width, Math.ceil(bounds.maxX + radius));
+  const bottom = Math.min(mask.height, Math.ceil(bounds.maxY + radius));
+  return right > left && bottom > top ? { left, top, right, bottom } : null;
+}
+
+// Stamp the dabs of the segments ending at points from the given index on.
+// Coverage is the max over all dabs, so overlapping dabs within one stroke
+// don't build up.
+function stampStroke(coverage: Coverage, { points, radius, hardRadius }: StrokeShape, from: number): void {
+  const right = coverage.left + coverage.width;
+  const bottom = coverage.top + coverage.height;
+  const stampDab = (cx: number, cy: number) => {
+    const x0 = Math.max(coverage.left, Math.floor(cx - radius));
+    const x1 = Math.min(right, Math.ceil(cx + radius));
+    const y0 = Math.max(coverage.top, Math.floor(cy - radius));
+    const y1 = Math.min(bottom, Math.ceil(cy + radius));
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const distance = Math.hypot(x + 0.5 - cx, y + 0.5 - cy);
+        if (distance >= radius) continue;
+        const amount = distance <= hardRadius ? 255 : ((radius - distance) / (radius - hardRadius)) * 255;
+        const index = (y - coverage.top) * coverage.width + (x - coverage.left);
+        if (amount > coverage.data[index]) coverage.data[index] = amount;
+      }
+    }
+  };
+
+  // Dabs a quarter radius apart along each segment
+  const spacing = Math.max(1, radius / 4);
+  if (from === 0) stampDab(points[0].x, points[0].y);
+  for (let i = Math.max(1, from); i < points.length; i++) {
+    const start = points[i - 1];
+    const end = points[i];
+    const steps = Math.ceil(Math.hypot(end.x - start.x, end.y - start.y) / spacing);
+    for (let step = 1; step <= steps; step++) {
+      const t = step / steps;
+      stampDab(start.x + (end.x - start.x) * t, start.y + (end.y - start.y) * t);
+    }
+  }
+}
+
+// Blend coverage into a mask value towards 255 or 0
+function blendValue(value: number, amount: number, mode: MaskEditMode): number {
+  return mode === 'add' ? value + ((255 - value) * amount) / 255 : value - (value * amount) / 255;
+}
+
+function paintStroke(mask: ForegroundMask, stroke: BrushStroke): void {
+  if (stroke.points.length === 0) return;
+
+  const shape = getStrokeShape(mask, stroke);
+  const bounds = getStrokeBounds(mask, shape, 0);
+  if (!bounds) return;
+
+  const width = bounds.right - bounds.left;
+  const height = bounds.bottom - bounds.top;
+  const coverage = { data: new Uint8ClampedArray(width * height), left: bounds.left, top: bounds.top, width, height };
+  stampStroke(coverage, shape, 0);
+
+  for (let i = 0; i < coverage.data.length; i++) {
+    const amount = coverage.data[i];
+    if (amount === 0) continue;
+    const index = (bounds.top + Math.floor(i / width)) * mask.width + bounds.left + (i % width);
+    mask.data[index] = blendValue(mask.data[index], amount, stroke.mode);
+  }
+}
+
+/**
+ * A brush stroke in progress drawn over a mask. Points added to the stroke
+ * only update the area they touch, so painting doesn't redo the whole mask.
+ */
+export interface StrokePreview {
+  base: ForegroundMask;
+  stroke: BrushStroke;
+  mask: ForegroundMask;
+  // Coverage of the stroke so far over the whole mask
+  coverage: Uint8ClampedArray;
+  // Points of the stroke already drawn
+  painted: number;
+}
+
+/**
+ * Draw the points added to a stroke since the last update. Returns the
+ * previous preview when nothing changed, and a new mask object otherwise so
+ * caches keyed on the mask see the change.
+ */
+export function updateStrokePreview(
+  preview: StrokePreview | null,
+  base: ForegroundMask,
+  stroke: BrushStroke
+): StrokePreview {
+  const current =
+    preview && preview.base === base && preview.stroke === stroke
+      ? preview
+      : {
+          base,
+          stroke,
+          mask: { data: new Uint8ClampedArray(base.data), width: base.width, height: base.height },
+          coverage: new Uint8ClampedArray(base.width * base.height),
+          painted: 0,
+        };
+  if (current.painted === stroke.points.length) return current;
+
+  const shape = getStrokeShape(base, stroke);
+  // The segment from the last drawn point is new
+  const bounds = getStrokeBounds(base, shape, Math.max(0, current.painted - 1));
+  if (bounds) {
+    const coverage = { data: current.coverage, left: 0, top: 0, width: base.width, height: base.height };
+    stampStroke(coverage, shape, current.painted);
+
+    const { data } = current.mask;
+    for (let y = bounds.top; y < bounds.bottom; y++) {
+      for (let x = bounds.left; x < bounds.right; x++) {
+        const index = y * base.width + x;
+        data[index] = blendValue(base.data[index], current.coverage[index], stroke.mode);
+      }
+    }
+  }
+
+  return {
+    ...current,
+    mask: { data: current.mask.data, width: base.width, height: base.height },
+    painted: stroke.points.length,
+  };
+}
+
+function floodFill(mask: ForegroundMask, fill: WandFill, pixels: MaskPixels): void {
+  const { width, height } = mask;
+  if (pixels.width !== width || pixels.height !== height) return;
+
+  const startX = Math.min(width - 1, Math.max(0, Math.floor(fill.x * width)));
+  const startY = Math.min(height - 1, Math.max(0, Math.floor(fill.y * height)));
+  const start = (startY * width + startX) * 4;
+  const seed = [pixels.data[start], pixels.data[start + 1], pixels.data[start + 2]];
+  const toleranceSquared = fill.tolerance * fill.tolerance;
+
+  const matches = (index: number) => {
+    const dr = pixels.data[index * 4] - seed[0];
+    const dg = pixels.data[index * 4 + 1] - seed[1];
+    const db = pixels.data[index * 4 + 2] - seed[2];
+    return dr * dr + dg * dg + db * db <= toleranceSquared;
+  };
+
+  const filled = new Uint8Array(width * height);
+  const stack = [startY * width + startX];
+  filled[stack[0]] = 1;
+
+  // 4-connected fill with an explicit stack
+  while (stack.length > 0) {
+    const index = stack.pop() as number;
+    const x = index % width;
+    const y = (index - x) / width;
+    const neighbours = [
+      x > 0 ? index - 1 : -1,
+      x < width - 1 ? index + 1 : -1,
+      y > 0 ? index - width : -1,
+      y < height - 1 ? index + width : -1,
+    ];
+    for (const neighbour of neighbours) {
+      if (neighbour >= 0 && !filled[neighbour] && matches(neighbour)) {
+        filled[neighbour] = 1;
+        stack.push(neighbour);
+      }
+    }
+  }
+
+  for (let i = 0; i < filled.length; i++) {
+    if (filled[i]) {
+      mask.data[i] = fill.mode === 'add' ? 255 : 0;
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { ForegroundMask, createForegroundMask } from '../core/maskProcessing';
+import { getObjectLabelAt, removeMaskObjects, segmentMask } from './maskObjects';
+
+const SIZE = 100;
+const SOFT = 64;
+
+function fill(data: Uint8ClampedArray, x: number, y: number, width: number, height: number, value: number): void {
+  for (let row = y; row < y + height; row++) {
+    data.fill(value, row * SIZE + x, row * SIZE + x + width);
+  }
+}
+
+// Two solid squares joined by a soft strip along row 20, and a speck
+function twoBlobsAndSpeck(): ForegroundMask {
+  const data = new Uint8ClampedArray(SIZE * SIZE);
+  fill(data, 5, 5, 30, 30, 255);
+  fill(data, 60, 10, 20, 20, 255);
+  fill(data, 35, 20, 25, 1, SOFT);
+  fill(data, 90, 50, 3, 3, 255);
+  // A soft edge that only touches the speck
+  fill(data, 93, 50, 1, 3, SOFT);
+  return createForegroundMask(data, SIZE, SIZE);
+}
+
+const labelAt = (labels: Int32Array, x: number, y: number) => labels[y * SIZE + x];
+
+describe('segmentMask', () => {
+  it('finds each blob as an object, largest first', () => {
+    const { objects, labels } = segmentMask(twoBlobsAndSpeck());
+
+    expect(objects.map((object) => object.area)).toEqual([900, 400]);
+    expect(objects[0].bounds).toEqual({ x: 5, y: 5, width: 30, height: 30 });
+    expect(objects[1].bounds).toEqual({ x: 60, y: 10, width: 20, height: 20 });
+    expect(objects[0].label).not.toBe(objects[1].label);
+
+    expect(labelAt(labels, 20, 20)).toBe(objects[0].label);
+    expect(labelAt(labels, 70, 20)).toBe(objects[1].label);
+    expect(labelAt(labels, 50, 80)).toBe(0);
+  });
+
+  it('drops specks along with their soft edges', () => {
+    const { labels } = segmentMask(twoBlobsAndSpeck());
+
+    expect(labelAt(labels, 91, 51)).toBe(0);
+    expect(labelAt(labels, 93, 51)).toBe(0);
+  });
+
+  it('gives soft edge pixels to the nearest object', () => {
+    const { objects, labels } = segmentMask(twoBlobsAndSpeck());
+
+    expect(labelAt(labels, 36, 20)).toBe(objects[0].label);
+    expect(labelAt(labels, 42, 20)).toBe(objects[0].label);
+    expect(labelAt(labels, 52, 20)).toBe(objects[1].label);
+    expect(labelAt(labels, 59, 20)).toBe(objects[1].label);
+  });
+
+  it('puts each seed inside its object', () => {
+    const segmentation = segmentMask(twoBlobsAndSpeck());
+
+    for (const object of segmentation.objects) {
+      expect(getObjectLabelAt(segmentation, object.seed)).toBe(object.label);
+    }
+  });
+});
+
+describe('removeMaskObjects', () => {
+  it('clears an object and its soft edge and keeps the rest', () => {
+    const mask = twoBlobsAndSpeck();
+    const segmentation = segmentMask(mask);
+    const removed = removeMaskObjects(mask, segmentation, new Set([segmentation.objects[1].label]));
+    const at = (x: number, y: number) => removed.data[y * SIZE + x];
+
+    expect(at(70, 20)).toBe(0);
+    expect(at(55, 20)).toBe(0);
+    expect(at(20, 20)).toBe(255);
+    expect(at(40, 20)).toBe(SOFT);
+    // Specks aren't objects, so they stay
+    expect(at(91, 51)).toBe(255);
+    expect(mask.data[20 * SIZE + 70]).toBe(255);
+  });
+
+  it('returns the mask itself when nothing is removed', () => {
+    const mask = twoBlobsAndSpeck();
+    expect(removeMaskObjects(mask, segmentMask(mask), new Set())).toBe(mask);
+  });
+
+  it('rejects a mask of another size', () => {
+    const segmentation = segmentMask(twoBlobsAndSpeck());
+    const other = createForegroundMask(new Uint8ClampedArray(4), 2, 2);
+
+    expect(() => removeMaskObjects(other, segmentation, new Set([1]))).toThrow('sizes do not match');
+  });
+});
@@ -0,0 +1,232 @@
+import { createDomCanvas } from './domCanvas';
+import { ForegroundMask } from '../core/maskProcessing';
+
+// Mask value a pixel needs to count as part of an object's core
+const OBJECT_THRESHOLD = 128;
+// Components smaller than this fraction of the image are specks, not objects
+const MIN_OBJECT_FRACTION = 0.001;
+
+/**
+ * A point relative to the image (0-1), used to refer to an object in a way
+ * that survives re-segmenting an edited mask
+ */
+export interface MaskPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * One separate object in the mask
+ */
+export interface MaskObject {
+  label: number;
+  // Pixel count of the object's core
+  area: number;
+  // In mask pixels
+  bounds: { x: number; y: number; width: number; height: number };
+  // A point inside the object
+  seed: MaskPoint;
+}
+
+/**
+ * The mask split into connected components. `labels` holds the object label
+ * of each mask pixel, 0 for background and specks.
+ */
+export interface MaskSegmentation {
+  labels: Int32Array;
+  width: number;
+  height: number;
+  // Largest first
+  objects: MaskObject[];
+}
+
+/**
+ * Split a mask into separate objects. Cores are 8-connected pixels above half
+ * coverage; soft edges are then given to the object they touch so removing an
+ * object takes its edge with it.
+ */
+export function segmentMask(mask: ForegroundMask): MaskSegmentation {
+  const { data, width, height } = mask;
+  const labels = new Int32Array(width * height);
+  const minArea = Math.max(16, Math.round(width * height * MIN_OBJECT_FRACTION));
+  const objects: MaskObject[] = [];
+  const stack: number[] = [];
+  let nextLabel = 1;
+
+  for (let start = 0; start < labels.length; start++) {
+    if (labels[start] !== 0 || data[start] < OBJECT_THRESHOLD) continue;
+
+    // Flood fill the core, tracking its extent
+    const label = nextLabel++;
+    // Pixels are only remembered while the component could still be a speck
+    const speckPixels: number[] = [];
+    let area = 0;
+    labels[start] = label;
+    stack.push(start);
+    let minX = width;
+    let minY = height;
+    let maxX = 0;
+    let maxY = 0;
+    while (stack.length > 0) {
+      const index = stack.pop() as number;
+      area++;
+      if (area <= minArea) speckPixels.push(index);
+      const x = index % width;
+      const y = (index - x) / width;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const neighbour = ny * width + nx;
+          if (labels[neighbour] === 0 && data[neighbour] >= OBJECT_THRESHOLD) {
+            labels[neighbour] = label;
+            stack.push(neighbour);
+          }
+        }
+      }
+    }
+
+    if (area < minArea) {
+      // Mark specks so they aren't revisited, then drop them below
+      speckPixels.forEach((index) => (labels[index] = -1));
+      continue;
+    }
+
+    // The first pixel in scan order is inside the object and stable for an
+    // unchanged mask
+    const seedX = start % width;
+    const seedY = (start - seedX) / width;
+    objects.push({
+      label,
+      area,
+      bounds: { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 },
+      seed: { x: (seedX + 0.5) / width, y: (seedY + 0.5) / height },
+    });
+  }
+
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] < 0) labels[i] = 0;
+  }
+  assignSoftEdges(mask, labels);
+  objects.sort((a, b) => b.area - a.area);
+
+  return { labels, width, height, objects };
+}
+
+// Grow labels outward through partially covered pixels, breadth first, so each
+// edge pixel joins the nearest object core
+function assignSoftEdges(mask: ForegroundMask, labels: Int32Array): void {
+  const { data, width, height } = mask;
+  const queue = new Int32Array(labels.length);
+  let head = 0;
+  let tail = 0;
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] > 0) queue[tail++] = i;
+  }
+
+  while (head < tail) {
+    const index = queue[head++];
+    const x = index % width;
+    const y = (index - x) / width;
+    const neighbours = [
+      x > 0 ? index - 1 : -1,
+      x < width - 1 ? index + 1 : -1,
+      y > 0 ? index - width : -1,
+      y < height - 1 ? index + width : -1,
+    ];
+    for (const neighbour of neighbours) {
+      if (neighbour >= 0 && labels[neighbour] === 0 && data[neighbour] > 0 && data[neighbour] < OBJECT_THRESHOLD) {
+        labels[neighbour] = labels[index];
+        queue[tail++] = neighbour;
+      }
+    }
+  }
+}
+
+/**
+ * Label of the object at a point, or 0 when there is none
+ */
+export function getObjectLabelAt(segmentation: MaskSegmentation, point: MaskPoint): number {
+  const { labels, width, height } = segmentation;
+  const x = Math.min(width - 1, Math.max(0, Math.floor(point.x * width)));
+  const y = Math.min(height - 1, Math.max(0, Math.floor(point.y * height)));
+  return labels[y * width + x];
+}
+
+/**
+ * Remove objects from a mask so they are treated as background. The mask must
+ * be the size of the segmentation.
+ */
+export function removeMaskObjects(
+  mask: ForegroundMask,
+  segmentation: MaskSegmentation,
+  removed: Set<number>
+): ForegroundMask {
+  if (removed.size === 0) return mask;
+  if (mask.width !== segmentation.width || mask.height !== segmentation.height) {
+    throw new Error('Mask and segmentation sizes do not match');
+  }
+
+  const data = new Uint8ClampedArray(mask.data);
+  for (let i = 0; i < data.length; i++) {
+    if (removed.has(segmentation.labels[i])) data[i] = 0;
+  }
+  return { data, width: mask.width, height: mask.height };
+}
+
+/**
+ * A small PNG data URL of one object cut out of the source image, fitted into
+ * a square of the given size
+ */
+export function createObjectThumbnail(
+  source: HTMLImageElement,
+  mask: ForegroundMask,
+  segmentation: MaskSegmentation,
+  object: MaskObject,
+  size: number
+): string {
+  const { bounds, label } = object;
+
+  // The object's alpha, cropped to its bounds at mask resolution
+  const { canvas: alphaCanvas, ctx: alphaCtx } = createDomCanvas(bounds.width, bounds.height);
+  const alpha = alphaCtx.createImageData(bounds.width, bounds.height);
+  for (let y = 0; y < bounds.height; y++) {
+    for (let x = 0; x < bounds.width; x++) {
+      const index = (bounds.y + y) * mask.width + bounds.x + x;
+      if (segmentation.labels[index] === label) {
+        alpha.data[(y * bounds.width + x) * 4 + 3] = mask.data[index];
+      }
+    }
+  }
+  alphaCtx.putImageData(alpha, 0, 0);
+
+  const scale = size / Math.max(bounds.width, bounds.height);
+  const width = Math.max(1, Math.round(bounds.width * scale));
+  const height = Math.max(1, Math.round(bounds.height * scale));
+  const { canvas, ctx } = createDomCanvas(width, height);
+
+  const sourceScaleX = source.naturalWidth / mask.width;
+  const sourceScaleY = source.naturalHeight / mask.height;
+  ctx.drawImage(
+    source,
+    bounds.x * sourceScaleX,
+    bounds.y * sourceScaleY,
+    bounds.width * sourceScaleX,
+    bounds.height * sourceScaleY,
+    0,
+    0,
+    width,
+    height
+  );
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.drawImage(alphaCanvas, 0, 0, width, height);
+
+  return canvas.toDataURL('image/png');
+}
@@ -0,0 +1,96 @@
+// Must match the names used in public/sw.js
+export const BUNDLED_MODEL_PATH = '/models/imgly/';
+const MODEL_CACHE = 'overlay-models-v1';
+const SERVICE_WORKER_URL = '/sw.js';
+
+export type OfflineStatus =
+  // Checking what is available
+  | 'checking'
+  // The browser has no service worker or cache support
+  | 'unsupported'
+  // The build doesn't include the model assets
+  | 'missing'
+  // Assets are deployed but this browser hasn't stored them yet
+  | 'not-cached'
+  | 'caching'
+  | 'ready';
+
+export const OFFLINE_STATUS_LABELS: Record<OfflineStatus, string> = {
+  checking: 'Checking offline availability…',
+  unsupported: 'Offline use is not supported in this browser',
+  missing: 'Model files are not included in this build',
+  'not-cached': 'Model not yet available offline',
+  caching: 'Saving model for offline use…',
+  ready: 'Available offline',
+};
+
+interface ResourceEntry {
+  chunks: { name: string }[];
+}
+
+function isSupported(): boolean {
+  return typeof window !== 'undefined' && 'serviceWorker' in navigator && 'caches' in window;
+}
+
+/**
+ * Register the service worker that caches the app and model. Skipped during
+ * development, where it would serve stale builds.
+ */
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!isSupported() || process.env.NODE_ENV !== 'production') return null;
+  return navigator.serviceWorker.register(SERVICE_WORKER_URL);
+}
+
+/**
+ * URLs of everything needed to run a model: the shared wasm runtime plus the
+ * model's own chunks. Null when the build doesn't include the assets.
+ */
+async function getModelAssetUrls(model: string): Promise<string[] | null> {
+  const resourcesUrl = `${BUNDLED_MODEL_PATH}resources.json`;
+  let resources: Record<string, ResourceEntry>;
+  try {
+    const response = await fetch(resourcesUrl);
+    if (!response.ok) return null;
+    resources = await response.json();
+  } catch {
+    return null;
+  }
+
+  const base = new URL(BUNDLED_MODEL_PATH, window.location.origin);
+  const chunks = Object.entries(resources)
+    .filter(([key]) => !key.startsWith('/models/') || key === `/models/${model}`)
+    .flatMap(([, entry]) => entry.chunks.map((chunk) => new URL(chunk.name, base).pathname));
+  return [resourcesUrl, ...chunks];
+}
+
+export async function checkModelAvailability(model: string): Promise<OfflineStatus> {
+  if (!isSupported()) return 'unsupported';
+
+  const urls = await getModelAssetUrls(model);
+  if (!urls) {
+    // Offline with nothing cached looks the same as a build without assets
+    const cache = await caches.open(MODEL_CACHE);
+    return (await cache.match(`${BUNDLED_MODEL_PATH}resources.json`)) ? 'not-cached' : 'missing';
+  }
+
+  const cache = await caches.open(MODEL_CACHE);
+  const matches = await Promise.all(urls.map((url) => cache.match(url)));
+  return matches.every(Boolean) ? 'ready' : 'not-cached';
+}
+
+/**
+ * Store a model and the runtime in the cache the service worker serves from
+ */
+export async function cacheModelAssets(model: string): Promise<void> {
+  const urls = await getModelAssetUrls(model);
+  if (!urls) {
+    throw new Error('Model assets are not available');
+  }
+
+  const cache = await caches.open(MODEL_CACHE);
+  const missing: string[] = [];
+  for (const url of urls) {
+    if (!(await cache.match(url))) missing.push(url);
+  }
+  await cache.addAll(missing);
+}
@@ -0,0 +1,271 @@
+import { strFromU8, strToU8, unzip, zip } from 'fflate';
+import { FontAsset } from './fontLibrary';
+import { MaskPoint } from './maskObjects';
+import { DEFAULT_MASK_REFINEMENT, ForegroundMask, MaskRefinement, createForegroundMask } from '../core/maskProcessing';
+import { TextLayer, normalizeTextLayer } from '../core/textLayers';
+
+export const PROJECT_EXTENSION = '.overlay';
+export const PROJECT_FORMAT = 'overlay-project';
+export const PROJECT_VERSION = 3;
+
+const MANIFEST_PATH = 'manifest.json';
+const MASK_PATH = 'mask.raw';
+const CUTOUT_PATH = 'cutout.png';
+
+/**
+ * Everything needed to restore an editing session without re-running
+ * background removal
+ */
+export interface ProjectState {
+  source: File;
+  mask: ForegroundMask;
+  cutout: Blob;
+  layers: TextLayer[];
+  maskRefinement: MaskRefinement;
+  // Points inside objects the text runs over instead of behind
+  nonOccludingObjects: MaskPoint[];
+  // Uploaded fonts used by the layers, so renders are reproducible elsewhere
+  fonts: FontAsset[];
+}
+
+interface ProjectManifest {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  createdAt: string;
+  source: { name: string; type: string; path: string };
+  mask: { width: number; height: number; path: string };
+  cutout: { path: string };
+  layers: TextLayer[];
+  maskRefinement: MaskRefinement;
+  nonOccludingObjects: MaskPoint[];
+  fonts: { family: string; fileName: string; path: string }[];
+}
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+// Upgrades a manifest from version N to N + 1. Add an entry here whenever
+// PROJECT_VERSION is bumped.
+const MIGRATIONS: Record<number, (manifest: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 2 embeds uploaded fonts
+  1: (manifest) => ({ ...manifest, fonts: [] }),
+  // Version 3 records which objects don't occlude the text
+  2: (manifest) => ({ ...manifest, nonOccludingObjects: [] }),
+};
+
+export function isProjectFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith(PROJECT_EXTENSION);
+}
+
+/**
+ * Bundle the project into a zip containing the manifest, the untouched source
+ * image, the raw mask bytes and the cutout
+ */
+export async function saveProject(state: ProjectState): Promise<Blob> {
+  const sourcePath = `source${getExtension(state.source.name)}`;
+  const fonts = state.fonts.map((font, index) => ({
+    family: font.family,
+    fileName: font.fileName,
+    path: `fonts/${index}${getExtension(font.fileName)}`,
+  }));
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    createdAt: new Date().toISOString(),
+    source: { name: state.source.name, type: state.source.type, path: sourcePath },
+    mask: { width: state.mask.width, height: state.mask.height, path: MASK_PATH },
+    cutout: { path: CUTOUT_PATH },
+    layers: state.layers,
+    maskRefinement: state.maskRefinement,
+    nonOccludingObjects: state.nonOccludingObjects,
+    fonts,
+  };
+
+  const files: Record<string, Uint8Array> = {
+    [MANIFEST_PATH]: strToU8(JSON.stringify(manifest, null, 2)),
+    [sourcePath]: new Uint8Array(await state.source.arrayBuffer()),
+    // The mask is stored raw; it compresses well and stays lossless
+    [MASK_PATH]: new Uint8Array(state.mask.data.buffer, state.mask.data.byteOffset, state.mask.data.length),
+    [CUTOUT_PATH]: new Uint8Array(await state.cutout.arrayBuffer()),
+  };
+  state.fonts.forEach((font, index) => {
+    files[fonts[index].path] = new Uint8Array(font.data);
+  });
+
+  const zipped = await new Promise<Uint8Array>((resolve, reject) => {
+    zip(files, { level: 6 }, (error, data) => (error ? reject(error) : resolve(data)));
+  });
+
+  return new Blob([zipped as BlobPart], { type: 'application/zip' });
+}
+
+/**
+ * Read a project file, validating and migrating its manifest to the current version
+ */
+export async function loadProject(file: Blob): Promise<ProjectState> {
+  const files = await new Promise<Record<string, Uint8Array>>((resolve, reject) => {
+    file
+      .arrayBuffer()
+      .then((buffer) =>
+        unzip(new Uint8Array(buffer), (error, data) =>
+          error ? reject(new ProjectFileError('Project file is not a valid archive')) : resolve(data)
+        )
+      )
+      .catch(reject);
+  });
+
+  const manifestBytes = files[MANIFEST_PATH];
+  if (!manifestBytes) {
+    throw new ProjectFileError('Project file is missing its manifest');
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(strFromU8(manifestBytes));
+  } catch {
+    throw new ProjectFileError('Project manifest is not valid JSON');
+  }
+
+  const manifest = validateManifest(migrateManifest(raw));
+  const readEntry = (path: string) => {
+    const data = files[path];
+    if (!data) throw new ProjectFileError(`Project file is missing ${path}`);
+    return data;
+  };
+
+  const maskBytes = readEntry(manifest.mask.path);
+  if (maskBytes.length !== manifest.mask.width * manifest.mask.height) {
+    throw new ProjectFileError('Project mask does not match its declared size');
+  }
+
+  return {
+    source: new File([readEntry(manifest.source.path) as BlobPart], manifest.source.name, { type: manifest.source.type }),
+    mask: createForegroundMask(new Uint8ClampedArray(maskBytes), manifest.mask.width, manifest.mask.height),
+    cutout: new Blob([readEntry(manifest.cutout.path) as BlobPart], { type: 'image/png' }),
+    layers: manifest.layers,
+    maskRefinement: manifest.maskRefinement,
+    nonOccludingObjects: manifest.nonOccludingObjects,
+    fonts: manifest.fonts.map((font) => {
+      const data = readEntry(font.path);
+      return {
+        family: font.family,
+        fileName: font.fileName,
+        data: data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer,
+      };
+    }),
+  };
+}
+
+function migrateManifest(raw: unknown): Record<string, unknown> {
+  if (!isRecord(raw) || raw.format !== PROJECT_FORMAT) {
+    throw new ProjectFileError('File is not an overlay project');
+  }
+
+  let manifest = raw;
+  let version = typeof manifest.version === 'number' ? manifest.version : NaN;
+  if (!Number.isInteger(version) || version < 1) {
+    throw new ProjectFileError('Project file has an invalid version');
+  }
+  if (version > PROJECT_VERSION) {
+    throw new ProjectFileError('Project was saved by a newer version of the app');
+  }
+
+  while (version < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new ProjectFileError(`No migration from project version ${version}`);
+    }
+    manifest = migrate(manifest);
+    version += 1;
+  }
+
+  return { ...manifest, version };
+}
+
+function validateManifest(manifest: Record<string, unknown>): ProjectManifest {
+  const { source, mask, cutout, layers, maskRefinement, nonOccludingObjects, fonts } = manifest;
+
+  if (!isRecord(source) || typeof source.name !== 'string' || typeof source.path !== 'string') {
+    throw new ProjectFileError('Project manifest has an invalid source entry');
+  }
+  if (
+    !isRecord(mask) ||
+    !isPositiveInteger(mask.width) ||
+    !isPositiveInteger(mask.height) ||
+    typeof mask.path !== 'string'
+  ) {
+    throw new ProjectFileError('Project manifest has an invalid mask entry');
+  }
+  if (!isRecord(cutout) || typeof cutout.path !== 'string') {
+    throw new ProjectFileError('Project manifest has an invalid cutout entry');
+  }
+  if (!Array.isArray(layers) || !layers.every(isRecord)) {
+    throw new ProjectFileError('Project manifest has invalid text layers');
+  }
+  if (
+    !Array.isArray(nonOccludingObjects) ||
+    !nonOccludingObjects.every(
+      (point) => isRecord(point) && isUnitNumber(point.x) && isUnitNumber(point.y)
+    )
+  ) {
+    throw new ProjectFileError('Project manifest has invalid object settings');
+  }
+  if (
+    !Array.isArray(fonts) ||
+    !fonts.every(
+      (font) =>
+        isRecord(font) &&
+        typeof font.family === 'string' &&
+        typeof font.fileName === 'string' &&
+        typeof font.path === 'string'
+    )
+  ) {
+    throw new ProjectFileError('Project manifest has invalid fonts');
+  }
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    createdAt: typeof manifest.createdAt === 'string' ? manifest.createdAt : '',
+    source: {
+      name: source.name,
+      type: typeof source.type === 'string' ? source.type : '',
+      path: source.path,
+    },
+    mask: { width: mask.width as number, height: mask.height as number, path: mask.path },
+    cutout: { path: cutout.path },
+    layers: layers.map(normalizeTextLayer),
+    maskRefinement: {
+      feather: readNumber(maskRefinement, 'feather', DEFAULT_MASK_REFINEMENT.feather),
+      choke: readNumber(maskRefinement, 'choke', DEFAULT_MASK_REFINEMENT.choke),
+    },
+    nonOccludingObjects: nonOccludingObjects.map((point) => ({ x: point.x, y: point.y })),
+    fonts: fonts as ProjectManifest['fonts'],
+  };
+}
+
+function readNumber(record: unknown, key: string, fallback: number): number {
+  const value = isRecord(record) ? record[key] : undefined;
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+function getExtension(name: string): string {
+  const match = /\.[a-z0-9]+$/i.exec(name);
+  return match ? match[0].toLowerCase() : '';
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isUnitNumber(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
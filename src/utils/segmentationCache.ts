@@ -0,0 +1,167 @@
+import { DetectionOptions, DetectionResult, ForegroundDetector } from './foregroundDetection';
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+import { ForegroundMask } from '../core/maskProcessing';
+
+const DB_NAME = 'overlay-segmentation-cache';
+const DB_VERSION = 1;
+// Results are kept apart from their bookkeeping so eviction never has to load
+// masks and cutouts
+const ENTRY_STORE = 'entries';
+const META_STORE = 'meta';
+
+// Least recently used results are evicted beyond this
+export const MAX_CACHE_BYTES = 200 * 1024 * 1024;
+
+interface CacheEntry {
+  id: string;
+  mask: ForegroundMask;
+  cutout: Blob;
+}
+
+interface CacheMeta {
+  id: string;
+  size: number;
+  lastUsed: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+}
+
+function openCache(): Promise<IDBDatabase> {
+  return openDatabase(DB_NAME, DB_VERSION, [ENTRY_STORE, META_STORE]);
+}
+
+/**
+ * Cache key for a file: a hash of its contents plus the model settings that
+ * produced the result, so changing models never returns a stale mask
+ */
+export async function getSegmentationCacheKey(file: Blob, detectorKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  const hash = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${hash}:${detectorKey}`;
+}
+
+export async function getCachedSegmentation(key: string): Promise<{ mask: ForegroundMask; cutout: Blob } | null> {
+  const db = await openCache();
+  try {
+    const transaction = db.transaction([ENTRY_STORE, META_STORE], 'readwrite');
+    const metaStore = transaction.objectStore(META_STORE);
+    const [entry, meta] = (await Promise.all([
+      requestToPromise(transaction.objectStore(ENTRY_STORE).get(key)),
+      requestToPromise(metaStore.get(key)),
+    ])) as [CacheEntry | undefined, CacheMeta | undefined];
+    if (!entry) return null;
+
+    // Mark as recently used
+    if (meta) {
+      metaStore.put({ ...meta, lastUsed: Date.now() });
+    }
+    await transactionDone(transaction);
+
+    return { mask: entry.mask, cutout: entry.cutout };
+  } finally {
+    db.close();
+  }
+}
+
+export async function cacheSegmentation(key: string, mask: ForegroundMask, cutout: Blob): Promise<void> {
+  const size = mask.data.byteLength + cutout.size;
+  // A single result larger than the whole cache would evict everything else
+  if (size > MAX_CACHE_BYTES) return;
+
+  const db = await openCache();
+  try {
+    const transaction = db.transaction([ENTRY_STORE, META_STORE], 'readwrite');
+    const entry: CacheEntry = { id: key, mask, cutout };
+    const meta: CacheMeta = { id: key, size, lastUsed: Date.now() };
+    transaction.objectStore(ENTRY_STORE).put(entry);
+    transaction.objectStore(META_STORE).put(meta);
+    await transactionDone(transaction);
+
+    await evictToSize(db, MAX_CACHE_BYTES);
+  } finally {
+    db.close();
+  }
+}
+
+async function evictToSize(db: IDBDatabase, maxBytes: number): Promise<void> {
+  const metas = (await requestToPromise(
+    db.transaction(META_STORE, 'readonly').objectStore(META_STORE).getAll()
+  )) as CacheMeta[];
+
+  let total = metas.reduce((sum, meta) => sum + meta.size, 0);
+  if (total <= maxBytes) return;
+
+  const transaction = db.transaction([ENTRY_STORE, META_STORE], 'readwrite');
+  const oldestFirst = [...metas].sort((a, b) => a.lastUsed - b.lastUsed);
+  for (const meta of oldestFirst) {
+    if (total <= maxBytes) break;
+    transaction.objectStore(ENTRY_STORE).delete(meta.id);
+    transaction.objectStore(META_STORE).delete(meta.id);
+    total -= meta.size;
+  }
+  await transactionDone(transaction);
+}
+
+export async function getSegmentationCacheStats(): Promise<CacheStats> {
+  const db = await openCache();
+  try {
+    const metas = (await requestToPromise(
+      db.transaction(META_STORE, 'readonly').objectStore(META_STORE).getAll()
+    )) as CacheMeta[];
+    return { entries: metas.length, bytes: metas.reduce((sum, meta) => sum + meta.size, 0) };
+  } finally {
+    db.close();
+  }
+}
+
+export async function clearSegmentationCache(): Promise<void> {
+  const db = await openCache();
+  try {
+    const transaction = db.transaction([ENTRY_STORE, META_STORE], 'readwrite');
+    transaction.objectStore(ENTRY_STORE).clear();
+    transaction.objectStore(META_STORE).clear();
+    await transactionDone(transaction);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Run a detector with a persistent cache in front of it. A hit returns
+ * immediately without loading the model; cache failures fall back to running
+ * detection and never fail the request.
+ */
+export async function detectForegroundCached(
+  detector: ForegroundDetector,
+  image: Blob,
+  options: DetectionOptions = {}
+): Promise<DetectionResult> {
+  if (detector.cacheKey === null) {
+    return detector.detect(image, options);
+  }
+
+  let key: string | null = null;
+  try {
+    key = await getSegmentationCacheKey(image, detector.cacheKey);
+    const cached = await getCachedSegmentation(key);
+    if (cached) {
+      options.signal?.throwIfAborted();
+      return { ...cached, foregroundUrl: URL.createObjectURL(cached.cutout) };
+    }
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    console.error('Error reading segmentation cache:', error);
+  }
+
+  const result = await detector.detect(image, options);
+
+  if (key) {
+    await cacheSegmentation(key, result.mask, result.cutout).catch((error) =>
+      console.error('Error writing segmentation cache:', error)
+    );
+  }
+  return result;
+}
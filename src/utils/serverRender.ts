@@ -0,0 +1,384 @@
+import { randomUUID } from 'node:crypto';
+import {
+  FontKey,
+  Canvas as NodeCanvas,
+  GlobalFonts,
+  Image,
+  createCanvas as createNodeCanvas,
+  loadImage,
+} from '@napi-rs/canvas';
+import { Canvas, LoadedImage, setCanvasFactory } from '../core/canvasFactory';
+import {
+  ChromaKeySettings,
+  DEFAULT_CHROMA_KEY_SETTINGS,
+  createChromaKeyMask,
+  isHexColor,
+} from './detectors/chromaKeyDetector';
+import { createMaskFromPixels, fitMaskToImage } from './detectors/maskFileDetector';
+import {
+  DetectionError,
+  ForegroundDetector,
+  InvalidDimensionsError,
+  MAX_DETECTION_DIMENSION,
+  UnsupportedFormatError,
+} from './foregroundDetection';
+import { EXPORT_FORMATS, ExportFormat, getExportSize, getPreviewSize, renderExportCanvas } from './exportImage';
+import { getObjectLabelAt, removeMaskObjects, segmentMask } from './maskObjects';
+import { ImagePixels } from '../core/compositor';
+import { DEFAULT_MASK_REFINEMENT, ForegroundMask, MaskRefinement } from '../core/maskProcessing';
+import { ProjectState } from './projectFile';
+import { getPendingFillImages, loadFillImage } from '../core/textFills';
+import { TextLayer, normalizeTextLayer } from '../core/textLayers';
+
+// Node only: renders with @napi-rs/canvas. Never import this from client code.
+setCanvasFactory({
+  createCanvas: (width, height) => createNodeCanvas(width, height) as unknown as Canvas,
+  // The editor stores fill textures as data URLs. Anything else could make
+  // the server read local files or fetch URLs, so it is refused.
+  async loadImage(src) {
+    if (!src.startsWith('data:')) {
+      throw new Error('Only data URLs can be loaded');
+    }
+    return (await loadImage(src)) as unknown as LoadedImage;
+  },
+});
+
+// The AI model only runs in the browser, so the server finds the subject with
+// a solid background key or an uploaded mask
+export type ServerDetectionMethod = 'chroma-key' | 'mask-file';
+
+const SERVER_DETECTION_METHODS: ServerDetectionMethod[] = ['chroma-key', 'mask-file'];
+const MAX_RENDER_SCALE = 4;
+// Larger outputs are scaled down to this pixel count. Compositing allocates a
+// few canvases of the output size, so this bounds the memory of one render.
+const MAX_RENDER_PIXELS = 36 * 1000 * 1000;
+// Most output pixels per preview pixel. Layer sizes are scaled by this, so a
+// tiny previewWidth can't turn them into enormous ones.
+const MAX_TEXT_SCALE = 16;
+const MAX_LAYERS = 50;
+
+// Allowed ranges of layer values in preview pixels, somewhat wider than the
+// editor's controls
+const LAYER_LIMITS: { name: string; read: (layer: TextLayer) => number; min: number; max: number }[] = [
+  { name: 'size', read: (layer) => layer.size, min: 1, max: 1000 },
+  { name: 'stroke.width', read: (layer) => layer.stroke.width, min: 0, max: 100 },
+  { name: 'shadow.blur', read: (layer) => layer.shadow.blur, min: 0, max: 200 },
+  { name: 'shadow.offsetX', read: (layer) => layer.shadow.offsetX, min: -500, max: 500 },
+  { name: 'shadow.offsetY', read: (layer) => layer.shadow.offsetY, min: -500, max: 500 },
+  { name: 'glow.blur', read: (layer) => layer.glow.blur, min: 0, max: 200 },
+];
+
+/**
+ * Everything about a render except the images, as posted in the `design` field
+ */
+export interface RenderDesign {
+  layers: TextLayer[];
+  maskRefinement: MaskRefinement;
+  // Width of the preview the design was made on, which layer pixel sizes are
+  // relative to. Defaults to the editor's preview width for the image.
+  previewWidth: number | null;
+  detection: { method: ServerDetectionMethod; chromaKey: ChromaKeySettings };
+  format: ExportFormat;
+  // 0-1, only used by lossy formats
+  quality: number;
+  scale: number;
+  transparentBackground: boolean;
+}
+
+export type RenderOutputOptions = Pick<RenderDesign, 'format' | 'quality' | 'scale' | 'transparentBackground'>;
+
+export interface RenderedImage {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface RenderRequest {
+  image: Uint8Array;
+  design: RenderDesign;
+  // Required by the mask-file method
+  mask: Uint8Array | null;
+  // Font files to make available under the given family names
+  fonts: ServerFont[];
+  // Replaces the design's detection method, e.g. with the fake detector in
+  // tests
+  detector?: ForegroundDetector;
+}
+
+export interface ServerFont {
+  family: string;
+  data: Uint8Array;
+}
+
+/**
+ * The request itself is invalid, as opposed to the image failing to process
+ */
+export class RenderRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RenderRequestError';
+  }
+}
+
+/**
+ * Validate a posted design, filling in defaults for anything optional
+ */
+export function parseRenderDesign(raw: unknown, hasMask: boolean): RenderDesign {
+  if (!isRecord(raw)) {
+    throw new RenderRequestError('Design must be a JSON object');
+  }
+
+  const { layers, maskRefinement, previewWidth, detection, format, quality, scale, transparentBackground } = raw;
+  if (!Array.isArray(layers) || !layers.every(isRecord)) {
+    throw new RenderRequestError('Design must have a "layers" array of text layers');
+  }
+  if (layers.length > MAX_LAYERS) {
+    throw new RenderRequestError(`A design can have at most ${MAX_LAYERS} layers`);
+  }
+  if (previewWidth !== undefined && !isPositiveNumber(previewWidth)) {
+    throw new RenderRequestError('"previewWidth" must be a positive number');
+  }
+  if (format !== undefined && !(typeof format === 'string' && format in EXPORT_FORMATS)) {
+    throw new RenderRequestError(`"format" must be one of ${Object.keys(EXPORT_FORMATS).join(', ')}`);
+  }
+  if (quality !== undefined && !(typeof quality === 'number' && quality >= 0 && quality <= 1)) {
+    throw new RenderRequestError('"quality" must be between 0 and 1');
+  }
+  if (scale !== undefined && !(isPositiveNumber(scale) && scale <= MAX_RENDER_SCALE)) {
+    throw new RenderRequestError(`"scale" must be greater than 0 and at most ${MAX_RENDER_SCALE}`);
+  }
+
+  const detectionSettings = isRecord(detection) ? detection : {};
+  const method = detectionSettings.method ?? (hasMask ? 'mask-file' : 'chroma-key');
+  if (method === 'model') {
+    throw new DetectionError(
+      'The AI model only runs in the browser. Use chroma-key detection or a mask exported from the editor.'
+    );
+  }
+  if (!SERVER_DETECTION_METHODS.includes(method as ServerDetectionMethod)) {
+    throw new RenderRequestError(`Detection method must be one of ${SERVER_DETECTION_METHODS.join(', ')}`);
+  }
+  if (method === 'mask-file' && !hasMask) {
+    throw new RenderRequestError('The mask-file detection method needs a "mask" file');
+  }
+  const chromaKey = isRecord(detectionSettings.chromaKey) ? detectionSettings.chromaKey : {};
+  const keyColor = chromaKey.color ?? null;
+  if (keyColor !== null && !(typeof keyColor === 'string' && isHexColor(keyColor))) {
+    throw new RenderRequestError('The chroma key color must be a #rgb or #rrggbb color');
+  }
+
+  const textLayers = layers.map(normalizeTextLayer);
+  textLayers.forEach(checkLayerLimits);
+
+  return {
+    layers: textLayers,
+    maskRefinement: {
+      feather: readNumber(maskRefinement, 'feather', DEFAULT_MASK_REFINEMENT.feather),
+      choke: readNumber(maskRefinement, 'choke', DEFAULT_MASK_REFINEMENT.choke),
+    },
+    previewWidth: (previewWidth as number | undefined) ?? null,
+    detection: {
+      method: method as ServerDetectionMethod,
+      chromaKey: {
+        color: keyColor ?? DEFAULT_CHROMA_KEY_SETTINGS.color,
+        tolerance: readNumber(chromaKey, 'tolerance', DEFAULT_CHROMA_KEY_SETTINGS.tolerance),
+        softness: readNumber(chromaKey, 'softness', DEFAULT_CHROMA_KEY_SETTINGS.softness),
+      },
+    },
+    format: (format as ExportFormat | undefined) ?? 'png',
+    quality: (quality as number | undefined) ?? 0.92,
+    scale: (scale as number | undefined) ?? 1,
+    transparentBackground: transparentBackground === true,
+  };
+}
+
+/**
+ * Detect the subject and composite the design over the image, with the same
+ * compositing code the editor uses. Returns the encoded image.
+ */
+export async function renderOverlay(request: RenderRequest): Promise<RenderedImage> {
+  const image = await decodeServerImage(request.image);
+  const mask = await detectOnServer(image, request);
+  return withServerFonts(request.fonts, request.design.layers, (layers) =>
+    composeOverlay(image, mask, { ...request.design, layers })
+  );
+}
+
+/**
+ * Render a saved project with its own mask, layers and fonts. Other fonts are
+ * available too, but the project's own fonts take precedence.
+ */
+export async function renderProjectOverlay(
+  project: ProjectState,
+  output: RenderOutputOptions,
+  fonts: ServerFont[] = []
+): Promise<RenderedImage> {
+  const image = await decodeServerImage(new Uint8Array(await project.source.arrayBuffer()));
+  if (project.mask.width !== image.width || project.mask.height !== image.height) {
+    throw new InvalidDimensionsError('The project mask does not match its image.');
+  }
+
+  let mask = project.mask;
+  if (project.nonOccludingObjects.length > 0) {
+    const segmentation = segmentMask(mask);
+    const labels = project.nonOccludingObjects
+      .map((point) => getObjectLabelAt(segmentation, point))
+      .filter((label) => label > 0);
+    mask = removeMaskObjects(mask, segmentation, new Set(labels));
+  }
+
+  const projectFonts = project.fonts.map((font) => ({ family: font.family, data: new Uint8Array(font.data) }));
+  return withServerFonts([...fonts, ...projectFonts], project.layers, (layers) =>
+    composeOverlay(image, mask, {
+      ...output,
+      layers,
+      maskRefinement: project.maskRefinement,
+      previewWidth: null,
+    })
+  );
+}
+
+/**
+ * Run a render with font files available under their family names. The font
+ * registry is shared by the whole process, so each font is registered under a
+ * name unique to this render, the layers are pointed at it, and it is removed
+ * again afterwards. An upload named like an installed font only affects the
+ * layers of its own render.
+ */
+async function withServerFonts<T>(
+  fonts: ServerFont[],
+  layers: TextLayer[],
+  render: (layers: TextLayer[]) => Promise<T>
+): Promise<T> {
+  const keys: FontKey[] = [];
+  const families = new Map<string, string>();
+  try {
+    for (const font of fonts) {
+      const family = `upload-${randomUUID()}`;
+      const key = GlobalFonts.register(Buffer.from(font.data), family);
+      if (!key) {
+        throw new RenderRequestError(`The font file for "${font.family}" could not be loaded`);
+      }
+      keys.push(key);
+      families.set(font.family, family);
+    }
+
+    return await render(
+      layers.map((layer) => (families.has(layer.font) ? { ...layer, font: families.get(layer.font) as string } : layer))
+    );
+  } finally {
+    if (keys.length > 0) GlobalFonts.removeBatch(keys);
+  }
+}
+
+function checkLayerLimits(layer: TextLayer, index: number): void {
+  for (const { name, read, min, max } of LAYER_LIMITS) {
+    const value = read(layer);
+    if (value < min || value > max) {
+      throw new RenderRequestError(`Layer ${index + 1}: "${name}" must be between ${min} and ${max}`);
+    }
+  }
+}
+
+async function composeOverlay(
+  image: Image,
+  mask: ForegroundMask,
+  design: Omit<RenderDesign, 'detection'>
+): Promise<RenderedImage> {
+  const previewWidth = design.previewWidth ?? getPreviewSize(image.width, image.height).width;
+  const { width, height } = getExportSize(image.width, image.height, design.scale, MAX_RENDER_PIXELS);
+  if (width / previewWidth > MAX_TEXT_SCALE) {
+    throw new RenderRequestError(`"previewWidth" must be at least ${Math.ceil(width / MAX_TEXT_SCALE)} for this image`);
+  }
+  const format = EXPORT_FORMATS[design.format];
+  // Layers are drawn with their solid color until their fill texture has loaded
+  await Promise.all(
+    getPendingFillImages(design.layers).map((src) =>
+      loadFillImage(src).catch(() => {
+        throw new RenderRequestError('A layer has a fill image that could not be loaded');
+      })
+    )
+  );
+
+  const canvas = renderExportCanvas(
+    {
+      // Node images are drawn by the Node canvases installed above
+      image: image as unknown as HTMLImageElement,
+      mask,
+      layers: design.layers,
+      maskRefinement: design.maskRefinement,
+      previewWidth,
+      previewHeight: (previewWidth * image.height) / image.width,
+    },
+    width,
+    height,
+    format.supportsAlpha && design.transparentBackground
+  );
+
+  const nodeCanvas = canvas as unknown as NodeCanvas;
+  const quality = Math.round(design.quality * 100);
+  const data =
+    design.format === 'png'
+      ? await nodeCanvas.encode('png')
+      : await nodeCanvas.encode(design.format, quality);
+  return { data, mimeType: format.mimeType };
+}
+
+async function detectOnServer(image: Image, request: RenderRequest): Promise<ForegroundMask> {
+  if (request.detector) {
+    const result = await request.detector.detect(new Blob([request.image as BlobPart]));
+    URL.revokeObjectURL(result.foregroundUrl);
+    return result.mask;
+  }
+
+  const { method, chromaKey } = request.design.detection;
+  switch (method) {
+    case 'chroma-key':
+      return createChromaKeyMask(getServerImagePixels(image), chromaKey);
+    case 'mask-file': {
+      if (!request.mask) throw new DetectionError('No mask was provided.');
+      const maskImage = await decodeServerImage(request.mask);
+      return fitMaskToImage(createMaskFromPixels(getServerImagePixels(maskImage)), image.width, image.height);
+    }
+  }
+}
+
+// Decode with the same limits the browser detectors apply
+async function decodeServerImage(data: Uint8Array): Promise<Image> {
+  let image: Image;
+  try {
+    image = await loadImage(Buffer.from(data));
+  } catch (error) {
+    throw new UnsupportedFormatError({ cause: error });
+  }
+
+  if (image.width === 0 || image.height === 0) {
+    throw new InvalidDimensionsError('The image has no pixels.');
+  }
+  if (image.width > MAX_DETECTION_DIMENSION || image.height > MAX_DETECTION_DIMENSION) {
+    throw new InvalidDimensionsError(
+      `The image is ${image.width}x${image.height}; background removal supports up to ${MAX_DETECTION_DIMENSION}px per side.`
+    );
+  }
+  return image;
+}
+
+function getServerImagePixels(image: Image): ImagePixels {
+  const canvas = createNodeCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, 0, 0);
+  // Node's ImageData is typed against its own buffers but has the same shape
+  return ctx.getImageData(0, 0, image.width, image.height) as unknown as ImagePixels;
+}
+
+function readNumber(record: unknown, key: string, fallback: number): number {
+  const value = isRecord(record) ? record[key] : undefined;
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
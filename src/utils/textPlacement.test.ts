@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { ForegroundMask, createForegroundMask } from '../core/maskProcessing';
+import { DEFAULT_PLACEMENT_OPTIONS, suggestTextPlacements } from './textPlacement';
+
+const WIDTH = 200;
+const HEIGHT = 100;
+// A centered text box five times as wide as it is tall at size 20
+const BOUNDS = { x: -25, y: -5, width: 50, height: 10 };
+const SIZE = 20;
+
+function mask(covered: (x: number, y: number) => boolean): ForegroundMask {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      if (covered(x, y)) data[y * WIDTH + x] = 255;
+    }
+  }
+  return createForegroundMask(data, WIDTH, HEIGHT);
+}
+
+function suggest(subject: ForegroundMask, options: Partial<typeof DEFAULT_PLACEMENT_OPTIONS> = {}) {
+  return suggestTextPlacements(subject, BOUNDS, SIZE, WIDTH, HEIGHT, { ...DEFAULT_PLACEMENT_OPTIONS, ...options });
+}
+
+describe('suggestTextPlacements', () => {
+  it('suggests the largest text first on an empty mask', () => {
+    const suggestions = suggest(mask(() => false));
+
+    expect(suggestions).toHaveLength(DEFAULT_PLACEMENT_OPTIONS.count);
+    expect(suggestions.every((suggestion) => suggestion.occlusion === 0)).toBe(true);
+    // The widest box tried is 90% of the image, 3.6 times the text's width
+    expect(suggestions[0].size).toBe(Math.round(SIZE * 3.6));
+    // which only fits around the middle
+    expect(suggestions[0].x).toBeGreaterThanOrEqual(45);
+    expect(suggestions[0].x).toBeLessThanOrEqual(55);
+    for (let i = 1; i < suggestions.length; i++) {
+      expect(suggestions[i].size).toBeLessThanOrEqual(suggestions[i - 1].size);
+    }
+  });
+
+  it('finds nothing visible on a full mask, and only hidden spots when asked for them', () => {
+    const full = mask(() => true);
+
+    expect(suggest(full)).toEqual([]);
+    const hidden = suggest(full, { targetOcclusion: 1 });
+    expect(hidden.length).toBeGreaterThan(0);
+    expect(hidden.every((suggestion) => suggestion.occlusion === 1)).toBe(true);
+  });
+
+  it('keeps visible text on the side without the subject', () => {
+    const suggestions = suggest(mask((x) => x < WIDTH / 2));
+
+    expect(suggestions.length).toBeGreaterThan(0);
+    for (const suggestion of suggestions) {
+      expect(suggestion.occlusion).toBeLessThanOrEqual(0.1);
+      expect(suggestion.x).toBeGreaterThan(50);
+    }
+  });
+
+  it('ignores the subject for front layers', () => {
+    const subject = mask((x) => x < WIDTH / 2);
+
+    expect(suggest(subject, { depth: 'front', targetOcclusion: 0.5 })).toEqual(suggest(mask(() => false)));
+    expect(suggest(mask(() => true), { depth: 'front' }).length).toBeGreaterThan(0);
+  });
+});
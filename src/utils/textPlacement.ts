@@ -0,0 +1,219 @@
+import { ForegroundMask } from '../core/maskProcessing';
+import { TextBounds } from '../core/textFills';
+import { LayerDepth } from '../core/textLayers';
+
+/**
+ * A suggested position and size for a text layer
+ */
+export interface TextPlacement {
+  // Anchor position in percent of the image, as stored on layers
+  x: number;
+  y: number;
+  // Font size in preview pixels
+  size: number;
+  // Fraction of the text box covered by the subject
+  occlusion: number;
+}
+
+export interface PlacementOptions {
+  // Fraction of the text box the subject should cover: 0 keeps the text
+  // fully visible, higher values tuck it partly behind the subject
+  targetOcclusion: number;
+  count: number;
+  // Depth of the layer. Front layers are drawn over the subject, so the
+  // subject never hides them and is ignored.
+  depth: LayerDepth;
+}
+
+export const DEFAULT_PLACEMENT_OPTIONS: PlacementOptions = {
+  targetOcclusion: 0,
+  count: 5,
+  depth: 'behind',
+};
+
+// Cells along the longer side of the grid the mask is averaged into
+const GRID_SIZE = 96;
+// Widest and narrowest text box tried, as a fraction of the image width
+const MAX_BOX_WIDTH = 0.9;
+const MIN_BOX_WIDTH = 0.15;
+const BOX_SCALE_STEP = 0.85;
+// Space kept clear between the text and the image edges, as a fraction of each side
+const EDGE_MARGIN = 0.03;
+// Candidates whose occlusion is further than this from the target are dropped
+const OCCLUSION_TOLERANCE = 0.1;
+// Suggestions overlapping an earlier one by more than this are too similar
+const MAX_OVERLAP = 0.15;
+// Margin around the box used to prefer positions with clear space around them
+const SURROUND_SCALE = 1.3;
+
+interface Candidate {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  scale: number;
+  occlusion: number;
+  score: number;
+}
+
+/**
+ * Suggest places for a block of text where the subject hides about the
+ * target share of it, largest first and spread across the image.
+ *
+ * `bounds` is the text box relative to its anchor at the layer's current
+ * `size`, in preview pixels, without rotation; suggestions keep the layer's
+ * proportions and assume it is not rotated.
+ */
+export function suggestTextPlacements(
+  mask: ForegroundMask,
+  bounds: TextBounds,
+  size: number,
+  previewWidth: number,
+  previewHeight: number,
+  options: PlacementOptions = DEFAULT_PLACEMENT_OPTIONS
+): TextPlacement[] {
+  const behindSubject = options.depth !== 'front';
+  const grid = buildCoverageGrid(mask, behindSubject);
+  const targetOcclusion = behindSubject ? options.targetOcclusion : 0;
+  // The text box as fractions of the image at scale 1
+  const boxWidth = bounds.width / previewWidth;
+  const boxHeight = bounds.height / previewHeight;
+  if (boxWidth <= 0 || boxHeight <= 0) return [];
+
+  const candidates: Candidate[] = [];
+  for (let width = MAX_BOX_WIDTH; width >= MIN_BOX_WIDTH; width *= BOX_SCALE_STEP) {
+    const scale = width / boxWidth;
+    const height = boxHeight * scale;
+    if (height > 1 - EDGE_MARGIN * 2) continue;
+    collectCandidates(grid, width, height, scale, targetOcclusion, candidates);
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+  const chosen: Candidate[] = [];
+  for (const candidate of candidates) {
+    if (chosen.length >= options.count) break;
+    if (chosen.every((other) => overlap(candidate, other) <= MAX_OVERLAP)) {
+      chosen.push(candidate);
+    }
+  }
+
+  return chosen.map((candidate) => {
+    // Move from the box corner to the layer's anchor, which depends on alignment
+    const anchorX = candidate.left - (bounds.x / previewWidth) * candidate.scale;
+    const anchorY = candidate.top - (bounds.y / previewHeight) * candidate.scale;
+    return {
+      x: round(anchorX * 100),
+      y: round(anchorY * 100),
+      size: Math.max(1, Math.round(size * candidate.scale)),
+      occlusion: candidate.occlusion,
+    };
+  });
+}
+
+interface CoverageGrid {
+  columns: number;
+  rows: number;
+  // Summed-area table of coverage (0-1), (columns + 1) x (rows + 1)
+  sums: Float64Array;
+}
+
+// Average the mask into a coarse grid and build its summed-area table so the
+// coverage of any box is four lookups. Without the subject the grid is empty.
+function buildCoverageGrid(mask: ForegroundMask, includeSubject: boolean): CoverageGrid {
+  const ratio = GRID_SIZE / Math.max(mask.width, mask.height);
+  const columns = Math.max(1, Math.round(mask.width * ratio));
+  const rows = Math.max(1, Math.round(mask.height * ratio));
+  if (!includeSubject) {
+    return { columns, rows, sums: new Float64Array((columns + 1) * (rows + 1)) };
+  }
+
+  const totals = new Float64Array(columns * rows);
+  const counts = new Uint32Array(columns * rows);
+  for (let y = 0; y < mask.height; y++) {
+    const row = Math.min(rows - 1, Math.floor((y * rows) / mask.height));
+    for (let x = 0; x < mask.width; x++) {
+      const cell = row * columns + Math.min(columns - 1, Math.floor((x * columns) / mask.width));
+      totals[cell] += mask.data[y * mask.width + x];
+      counts[cell]++;
+    }
+  }
+
+  const stride = columns + 1;
+  const sums = new Float64Array(stride * (rows + 1));
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const cell = row * columns + column;
+      const coverage = counts[cell] ? totals[cell] / counts[cell] / 255 : 0;
+      sums[(row + 1) * stride + column + 1] =
+        coverage + sums[row * stride + column + 1] + sums[(row + 1) * stride + column] - sums[row * stride + column];
+    }
+  }
+
+  return { columns, rows, sums };
+}
+
+// Mean coverage of a box given as fractions of the image, clipped to it
+function boxCoverage(grid: CoverageGrid, left: number, top: number, width: number, height: number): number {
+  const { columns, rows, sums } = grid;
+  const x0 = clampIndex(Math.round(left * columns), columns);
+  const x1 = clampIndex(Math.round((left + width) * columns), columns);
+  const y0 = clampIndex(Math.round(top * rows), rows);
+  const y1 = clampIndex(Math.round((top + height) * rows), rows);
+  const area = (x1 - x0) * (y1 - y0);
+  if (area === 0) return 0;
+
+  const stride = columns + 1;
+  const total = sums[y1 * stride + x1] - sums[y0 * stride + x1] - sums[y1 * stride + x0] + sums[y0 * stride + x0];
+  return total / area;
+}
+
+// Slide a box of one size over the grid, one cell at a time
+function collectCandidates(
+  grid: CoverageGrid,
+  width: number,
+  height: number,
+  scale: number,
+  targetOcclusion: number,
+  candidates: Candidate[]
+): void {
+  const stepX = 1 / grid.columns;
+  const stepY = 1 / grid.rows;
+
+  for (let top = EDGE_MARGIN; top + height <= 1 - EDGE_MARGIN; top += stepY) {
+    for (let left = EDGE_MARGIN; left + width <= 1 - EDGE_MARGIN; left += stepX) {
+      const occlusion = boxCoverage(grid, left, top, width, height);
+      const mismatch = Math.abs(occlusion - targetOcclusion);
+      if (mismatch > OCCLUSION_TOLERANCE) continue;
+
+      // Prefer big text, then a close match, then room around the box so the
+      // text doesn't sit right against the subject
+      const surroundWidth = width * SURROUND_SCALE;
+      const surroundHeight = height * SURROUND_SCALE;
+      const surrounding = boxCoverage(
+        grid,
+        left - (surroundWidth - width) / 2,
+        top - (surroundHeight - height) / 2,
+        surroundWidth,
+        surroundHeight
+      );
+      const score = width - mismatch - Math.abs(surrounding - targetOcclusion) * 0.5;
+      candidates.push({ left, top, width, height, scale, occlusion, score });
+    }
+  }
+}
+
+// Intersection over the smaller box, so a small box inside a big one counts as a repeat
+function overlap(a: Candidate, b: Candidate): number {
+  const width = Math.min(a.left + a.width, b.left + b.width) - Math.max(a.left, b.left);
+  const height = Math.min(a.top + a.height, b.top + b.height) - Math.max(a.top, b.top);
+  if (width <= 0 || height <= 0) return 0;
+  return (width * height) / Math.min(a.width * a.height, b.width * b.height);
+}
+
+function clampIndex(value: number, max: number): number {
+  return Math.min(max, Math.max(0, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}